@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+import { runCli } from './src/cli.ts'
+
+process.exitCode = await runCli(process.argv.slice(2), {
+  cwd: process.cwd(),
+  out: (text) => console.log(text),
+  err: (text) => console.error(text),
+})
@@ -3,37 +3,57 @@ import { DEONTIC_STRENGTHS, MODE_FORMATS, NEGATION_SIGNALS } from './src/descrip
 import { createFormatPromptTool, createParsePromptTool } from './src/prompts.ts'
 import {
   createAddTool,
+  createCheckTool,
+  createConsolidateTool,
+  createConvertTool,
   createDiscoverTool,
   createFormatRulesTool,
+  createLintTool,
   createParseRulesTool,
   createRewriteTool,
+  createUndoTool,
 } from './src/rules.ts'
+import { createSessionStore } from './src/session.ts'
 
 const plugin: Plugin = async ({ directory, client }) => {
-  const discovered = new Set<string>()
+  const sessions = createSessionStore()
 
   return {
     tool: {
       'discover-rules': createDiscoverTool({
         directory,
-        discovered,
+        sessions,
         description: [
           '- Discover instruction files from opencode.json configuration.',
           '- Read discovered instruction files and return their paths and contents.',
           '- Optionally accept a files parameter to read specific files instead of running discovery.',
+          '- Report estimated tokens per file and in total, warning when the tokenBudget in sat.json is exceeded.',
         ].join('\n'),
       }),
 
       'parse-rules': createParseRulesTool({
+        client,
+        directory,
+        sessions,
         description: [
           '- Structure instruction file content or user input into validated rules JSON.',
           '- You decompose the input into rule objects, the tool validates the structure.',
-          '- The rules parameter is required and must be a JSON string matching the schema described in the parameter.',
+          '- The rules parameter must be a JSON string matching the schema described in the parameter.',
           '- Validates the parsed rules against the schema and returns the validated JSON.',
+          '- Stores the validated rules under a handle such as parse-1 and returns it; pass the handle to format-rules instead of the JSON.',
+          '- For files already formatted by this plugin (Rule/Reason pairs or bullets), pass a files parameter instead of rules.',
+          '- The files parameter parses those files locally and returns their rules per file under a handle, without decomposing them yourself.',
+          '- Group rules per file or per section to give each its own rules in rewrite-rules; the handle keeps the grouping.',
+          '- When parsing a discovered file, add a source to each rule with the file path, line range, and the original text quoted verbatim.',
+          '- Sources are checked against the discovered file content; quotes not found in the given lines are rejected.',
           '- Call this tool AFTER discover-rules and BEFORE format-rules.',
           '',
           'Extract each rule into: strength, action (verb), target (object), context (optional condition), reason.',
           'Each parsed rule must correspond to the original instruction without adding extra details.',
+          'Rules whose action, target, and context terms do not appear in the discovered files are rejected as invented.',
+          'When parsing user input instead of discovered files, pass it as the input parameter so rules are checked against it.',
+          'After validating rules parsed from discovered files, reports directive sentences that no rule maps to in chat.',
+          'rewrite-rules only runs on files whose coverage has been reported.',
           '',
           'Detect deontic strength from input signals:',
           NEGATION_SIGNALS,
@@ -44,38 +64,84 @@ const plugin: Plugin = async ({ directory, client }) => {
       }),
 
       'format-rules': createFormatRulesTool({
+        sessions,
         description: [
-          '- Convert parsed rules from parse-rules into human-readable formatted rule strings.',
-          '- Express deontic strength naturally: obligatory as positive imperative, forbidden as negated imperative (do not), permissible as "may".',
+          '- Render parsed rules from parse-rules into formatted rule strings.',
+          '- Pass the handle returned by parse-rules, or its validated JSON unchanged; the tool renders every rule deterministically.',
           '- Optionally accept a mode parameter (verbose, balanced, or concise) to control formatting.',
           '- Default to balanced mode when no mode is specified.',
-          '- The rules parameter is required and must be a JSON string matching the schema described in the parameter.',
-          '- Validates the formatted rules and returns the validated JSON.',
+          '- The rules parameter is required and must be a parse-rules handle or a JSON string matching the schema described in the parameter.',
+          '- Returns the formatted rules JSON and a handle such as format-2 to pass to rewrite-rules or add-rules.',
+          '- Rules grouped per file or section stay grouped, so the handle can be passed to rewrite-rules as they are.',
+          '- Refuses handles from another session, from format-rules, or stored before discover-rules last ran.',
           '- Call this tool AFTER parse-rules and BEFORE rewrite-rules or add-rules.',
           '',
           'Strength determines how the rule is expressed:',
           DEONTIC_STRENGTHS,
           '',
-          'CRITICAL: forbidden + action "use" MUST produce "do not use ...", never "use ...".',
-          '',
           'Output format per mode:',
           MODE_FORMATS,
-          '',
-          'For verbose and balanced modes, each rule string must include "Rule: " prefix and "\\nReason: " suffix.',
-          'For concise mode, use "- " prefix with directive only, no reasons.',
+        ].join('\n'),
+      }),
+
+      'check-rules': createCheckTool({
+        directory,
+        sessions,
+        description: [
+          '- Check the parsed rules of all discovered instruction files for deontic conflicts.',
+          '- Reports O(A) vs F(A) and P(A) vs F(A) for the same action and target in the same context.',
+          '- Reports the same rule repeated across files.',
+          '- The rules parameter is required and must be a parse-rules handle or a JSON string matching the schema described in the parameter.',
+          '- Parse each discovered file separately and pass every file with its path, or the handle of rules grouped per file.',
+          '- Call this tool AFTER parse-rules.',
+        ].join('\n'),
+      }),
+
+      'lint-rules': createLintTool({
+        directory,
+        description: [
+          '- Check discovered instruction files against the formats this plugin produces.',
+          '- Every block must be a Rule: line with an optional Reason: line, or a "- " bullet; headings and code blocks are allowed.',
+          '- Reports mixed modes in one file, em dashes, empty reasons, and forbidden rules not opening with "Do not", "Avoid", "Never", or "Refrain from".',
+          '- Each problem is reported with its file, line, and rule id.',
+          '- Optionally accept a files parameter to lint specific files instead of discovering from opencode.json.',
+          '- Does not write; fix problems with rewrite-rules or convert-rules.',
+        ].join('\n'),
+      }),
+
+      'consolidate-rules': createConsolidateTool({
+        client,
+        directory,
+        sessions,
+        description: [
+          '- Find rules repeated across discovered instruction files and propose a canonical home for each.',
+          '- The canonical home is the file sharing the most repeated rules; copies in other files are removed.',
+          '- A rule in a read-only remote file stays there; only the copies in local files are removed.',
+          '- Without apply, only proposes: shows the per-file table and the groups without writing.',
+          '- Optionally accept a files parameter to consolidate specific files instead of discovering from opencode.json.',
+          '- Only call with apply=true after the user confirmed the proposal.',
+          '- Call this tool AFTER discover-rules.',
         ].join('\n'),
       }),
 
       'rewrite-rules': createRewriteTool({
         client,
         directory,
-        discovered,
+        sessions,
         description: [
           '- Write formatted rule strings from format-rules to instruction files, replacing existing content.',
-          '- The rules parameter is required and must be a JSON string matching the schema described in the parameter.',
+          '- The rules parameter is required and must be a format-rules handle or a JSON string matching the schema described in the parameter.',
           '- Optionally accept a mode parameter (verbose, balanced, or concise) to control formatting.',
           '- Default to balanced mode when no mode is specified.',
           '- Optionally accept a files parameter to process specific files instead of discovering from opencode.json.',
+          '- Pass a "files" array in the rules parameter to give each discovered file its own rules; only the listed files are written.',
+          '- Optionally accept a sections parameter to rewrite only the prose under named headings, keeping headings, code blocks, and front matter.',
+          '- Optionally accept a dryRun parameter to preview the change as a unified diff without writing.',
+          '- Optionally accept a parsed parameter with the parse-rules JSON or handle to check each rule keeps its deontic strength.',
+          '- A format-rules handle brings the parse-rules output it was rendered from, so the strength check runs without parsed.',
+          '- Optionally accept an output parameter (table, markdown, or json) for the posted results. Default: markdown.',
+          '- Refuses files whose coverage report parse-rules has not shown yet.',
+          '- Refuses to write when a file changed on disk since discover-rules read it, unless force is true.',
           '- Call this tool AFTER format-rules.',
         ].join('\n'),
       }),
@@ -83,18 +149,54 @@ const plugin: Plugin = async ({ directory, client }) => {
       'add-rules': createAddTool({
         client,
         directory,
-        discovered,
+        sessions,
         description: [
           '- Append formatted rule strings from format-rules to an instruction file without rewriting existing content.',
-          '- The rules parameter is required and must be a JSON string matching the schema described in the parameter.',
+          '- The rules parameter is required and must be a format-rules handle or a JSON string matching the schema described in the parameter.',
           '- Optionally accept a mode parameter (verbose, balanced, or concise) to control formatting.',
           '- Default to balanced mode when no mode is specified.',
           '- Optionally accept a file parameter to specify the target instruction file.',
           '- Append to the first discovered instruction file when no file parameter is specified.',
+          '- Skip rules that exactly repeat a rule already in the file, and report what they matched.',
+          '- Append rules that only resemble an existing rule, and list them as near matches to check with the user.',
+          '- Optionally accept a keepDuplicates parameter to append duplicates anyway.',
+          '- Refuses to write when the file changed on disk since discover-rules read it, unless force is true.',
+          '- Optionally accept a dryRun parameter to preview the change as a unified diff without writing.',
+          '- Optionally accept a parsed parameter with the parse-rules JSON or handle to check each rule keeps its deontic strength.',
+          '- A format-rules handle brings the parse-rules output it was rendered from, so the strength check runs without parsed.',
+          '- Optionally accept an output parameter (table, markdown, or json) for the posted results. Default: markdown.',
           '- Call this tool AFTER format-rules.',
         ].join('\n'),
       }),
 
+      'convert-rules': createConvertTool({
+        client,
+        directory,
+        sessions,
+        description: [
+          '- Convert instruction files already formatted by this plugin to another mode without re-parsing them.',
+          '- The mode parameter is required: verbose, balanced, or concise.',
+          '- Converting to concise drops reasons. Converting to verbose needs a reason for every rule.',
+          '- Files with rules missing reasons are not written; fill in the reasons it returns, then call format-rules and rewrite-rules.',
+          '- Files with headings or prose are not converted; use the full pipeline for those.',
+          '- Optionally accept a files parameter to convert specific files instead of discovering from opencode.json.',
+          '- Optionally accept a dryRun parameter to preview the change as a unified diff without writing.',
+          '- Call this tool AFTER discover-rules.',
+        ].join('\n'),
+      }),
+
+      'undo-rules': createUndoTool({
+        client,
+        directory,
+        description: [
+          '- Restore an instruction file from a snapshot taken before rewrite-rules or add-rules wrote to it.',
+          '- Call without parameters to list available snapshots, newest first.',
+          '- Optionally accept a file parameter to list only snapshots of that file.',
+          '- Accept a snapshot parameter with a snapshot id to restore it.',
+          '- The current content is snapshotted before restoring, so a restore can be undone too.',
+        ].join('\n'),
+      }),
+
       'parse-prompt': createParsePromptTool({
         description: [
           '- Structure user input into a validated task hierarchy.',
@@ -2,7 +2,9 @@ import { describe, expect, it } from 'bun:test'
 import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
 import { tmpdir } from 'node:os'
 import { join } from 'node:path'
+import { listSnapshots } from './backup.ts'
 import { type AppendResult, appendRules } from './append.ts'
+import { hashContent } from './stamp.ts'
 
 const RULE_A =
   'Rule: use consistent whitespace for readability in all source files\nReason: Whitespace is critical for readability.'
@@ -46,6 +48,23 @@ describe('appendRules', () => {
     await cleanup()
   })
 
+  it('refuses a file edited since its stamp was taken unless forced', async () => {
+    const filePath = await setup(RULE_A)
+    const stamp = { hash: hashContent('Rule: an older version'), mtimeMs: 0 }
+
+    const refused = await appendRules({ filePath, rules: [RULE_B], stamp })
+
+    expectStatus(refused, 'conflict')
+    expect(await readFile(filePath, 'utf-8')).toBe(RULE_A)
+
+    const forced = await appendRules({ filePath, rules: [RULE_B], stamp, force: true })
+
+    expectSuccess(forced)
+    expect(await readFile(filePath, 'utf-8')).toBe(RULE_A + '\n\n' + RULE_B + '\n')
+
+    await cleanup()
+  })
+
   it('appends formatted rules to file', async () => {
     const filePath = await setup('Existing content.\n')
 
@@ -143,6 +162,22 @@ describe('appendRules', () => {
     await cleanup()
   })
 
+  it('compares the file size before and after appending', async () => {
+    const filePath = await setup('# Rules\n')
+
+    const result = await appendRules({
+      filePath,
+      rules: [RULE_A],
+    })
+
+    const success = expectSuccess(result)
+    expect(success.comparison.file).toBe('instructions.md')
+    expect(success.comparison.originalBytes).toBe(8)
+    expect(success.comparison.generatedBytes).toBeGreaterThan(8)
+
+    await cleanup()
+  })
+
   it('appends to empty file', async () => {
     const filePath = await setup('')
 
@@ -190,4 +225,111 @@ describe('appendRules', () => {
 
     await cleanup()
   })
+
+  it('previews without writing in dry run mode', async () => {
+    const filePath = await setup('Existing.\n')
+
+    const result = await appendRules({
+      filePath,
+      rules: [RULE_A],
+      dryRun: true,
+    })
+
+    expectStatus(result, 'preview')
+    const preview = result as Extract<AppendResult, { status: 'preview' }>
+    expect(preview.diff).toContain(' Existing.')
+    expect(preview.diff).toContain('+Rule: use consistent whitespace')
+
+    const written = await readFile(filePath, 'utf-8')
+    expect(written).toBe('Existing.\n')
+
+    await cleanup()
+  })
+
+  it('snapshots the original content before appending', async () => {
+    const filePath = await setup('Existing.\n')
+
+    const result = await appendRules({
+      filePath,
+      rules: [RULE_A],
+      backupDirectory: dir,
+    })
+
+    expectStatus(result, 'success')
+
+    const snapshots = await listSnapshots(dir)
+    expect(snapshots.length).toBe(1)
+    expect(snapshots[0]?.content).toBe('Existing.\n')
+
+    await cleanup()
+  })
+
+  it('skips rules that already exist in the file', async () => {
+    const filePath = await setup(RULE_A + '\n')
+
+    const result = await appendRules({
+      filePath,
+      rules: ['- Use consistent whitespace for readability in all source files.', RULE_B],
+    })
+
+    const success = expectSuccess(result)
+    expect(success.rulesCount).toBe(1)
+    expect(success.added).toEqual([RULE_B])
+    expect(success.skipped.length).toBe(1)
+    expect(success.skipped[0]?.match).toBe(RULE_A)
+
+    const written = await readFile(filePath, 'utf-8')
+    expect(written).toBe(RULE_A + '\n\n' + RULE_B + '\n')
+
+    await cleanup()
+  })
+
+  it('appends rules that only resemble an existing rule and reports them', async () => {
+    const filePath = await setup('- Use 2 spaces for indentation in TypeScript files.\n')
+
+    const result = await appendRules({
+      filePath,
+      rules: ['- Use 4 spaces for indentation in TypeScript files.'],
+    })
+
+    const success = expectSuccess(result)
+    expect(success.added).toEqual(['- Use 4 spaces for indentation in TypeScript files.'])
+    expect(success.skipped).toEqual([])
+    expect(success.near[0]?.match).toBe('- Use 2 spaces for indentation in TypeScript files.')
+
+    await cleanup()
+  })
+
+  it('leaves the file untouched when every rule is a duplicate', async () => {
+    const filePath = await setup(RULE_A + '\n')
+
+    const result = await appendRules({
+      filePath,
+      rules: [RULE_A],
+      backupDirectory: dir,
+    })
+
+    const success = expectSuccess(result)
+    expect(success.rulesCount).toBe(0)
+    expect(await readFile(filePath, 'utf-8')).toBe(RULE_A + '\n')
+    expect(await listSnapshots(dir)).toEqual([])
+
+    await cleanup()
+  })
+
+  it('appends duplicates when keepDuplicates is set', async () => {
+    const filePath = await setup(RULE_A + '\n')
+
+    const result = await appendRules({
+      filePath,
+      rules: [RULE_A],
+      keepDuplicates: true,
+    })
+
+    const success = expectSuccess(result)
+    expect(success.rulesCount).toBe(1)
+    expect(success.skipped).toEqual([])
+
+    await cleanup()
+  })
 })
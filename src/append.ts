@@ -1,10 +1,32 @@
 import { readFile, writeFile } from 'node:fs/promises'
+import { basename } from 'node:path'
+import { saveSnapshot } from './backup.ts'
+import { compareBytes, type ComparisonResult } from './compare.ts'
+import { unifiedDiff } from './diff.ts'
+import { type DuplicateMatch, findDuplicates } from './duplicates.ts'
+import { extractDirective, splitRuleBlocks } from './rule-text.ts'
 import { safeAsync } from './safe.ts'
+import { type FileStamp, hashContent } from './stamp.ts'
 
 type AppendResultSuccess = {
   status: 'success'
   path: string
   rulesCount: number
+  comparison: ComparisonResult
+  added: Array<string>
+  skipped: Array<DuplicateMatch>
+  near: Array<DuplicateMatch>
+}
+
+type AppendResultPreview = {
+  status: 'preview'
+  path: string
+  rulesCount: number
+  comparison: ComparisonResult
+  added: Array<string>
+  skipped: Array<DuplicateMatch>
+  near: Array<DuplicateMatch>
+  diff: string
 }
 
 type AppendResultReadError = {
@@ -14,16 +36,29 @@ type AppendResultReadError = {
 }
 
 type AppendResultWriteError = {
-  status: 'writeError'
+  status: 'conflict' | 'backupError' | 'writeError'
   path: string
   error: string
 }
 
-export type AppendResult = AppendResultSuccess | AppendResultReadError | AppendResultWriteError
+export type AppendResult =
+  | AppendResultSuccess
+  | AppendResultPreview
+  | AppendResultReadError
+  | AppendResultWriteError
 
 type AppendRulesOptions = {
   filePath: string
   rules: Array<string>
+  dryRun?: boolean
+  // append every rule even when it repeats an existing one
+  keepDuplicates?: boolean
+  // project directory to snapshot the original content under before writing
+  backupDirectory?: string
+  // stamp taken when discovery read the file; a file whose content changed since is not written
+  stamp?: FileStamp
+  // write even when the content no longer matches the stamp
+  force?: boolean
 }
 
 const computeSeparator = (existing: string): string => {
@@ -52,11 +87,79 @@ export const appendRules = async (options: AppendRulesOptions): Promise<AppendRe
     }
   }
 
-  const formatted = options.rules.join('\n\n') + '\n'
   const existing = readResult.data
+  const duplicates = findDuplicates(splitRuleBlocks(existing), options.rules)
+  const added = options.keepDuplicates ? options.rules : duplicates.added
+  const skipped = options.keepDuplicates ? [] : duplicates.skipped
+  const near = duplicates.near
+  const name = basename(options.filePath)
+
+  // nothing new to append, leave the file untouched
+  if (added.length === 0 && options.dryRun) {
+    return {
+      status: 'preview',
+      path: options.filePath,
+      rulesCount: 0,
+      comparison: compareBytes(name, existing, existing),
+      added,
+      skipped,
+      near,
+      diff: '',
+    }
+  }
+
+  if (added.length === 0) {
+    return {
+      status: 'success',
+      path: options.filePath,
+      rulesCount: 0,
+      comparison: compareBytes(name, existing, existing),
+      added,
+      skipped,
+      near,
+    }
+  }
+
+  const formatted = added.join('\n\n') + '\n'
   const separator = computeSeparator(existing)
   const content = existing + separator + formatted
 
+  if (options.dryRun) {
+    return {
+      status: 'preview',
+      path: options.filePath,
+      rulesCount: added.length,
+      comparison: compareBytes(name, existing, content),
+      added,
+      skipped,
+      near,
+      diff: unifiedDiff({ path: name, original: existing, updated: content }),
+    }
+  }
+
+  if (options.stamp && !options.force && hashContent(existing) !== options.stamp.hash) {
+    return {
+      status: 'conflict',
+      path: options.filePath,
+      error: options.filePath + ' changed on disk since discover-rules read it; pass force to overwrite',
+    }
+  }
+
+  if (options.backupDirectory) {
+    const backup = await saveSnapshot({
+      directory: options.backupDirectory,
+      path: options.filePath,
+      content: existing,
+    })
+    if (backup.error !== null) {
+      return {
+        status: 'backupError',
+        path: options.filePath,
+        error: backup.error,
+      }
+    }
+  }
+
   const writeResult = await safeAsync(() => writeFile(options.filePath, content, 'utf-8'))
   if (writeResult.error) {
     return {
@@ -69,6 +172,45 @@ export const appendRules = async (options: AppendRulesOptions): Promise<AppendRe
   return {
     status: 'success',
     path: options.filePath,
-    rulesCount: options.rules.length,
+    rulesCount: added.length,
+    comparison: compareBytes(name, existing, content),
+    added,
+    skipped,
+    near,
   }
 }
+
+const formatDuplicate = (duplicate: DuplicateMatch): string => {
+  const score = duplicate.similarity === 1 ? 'exact' : Math.round(duplicate.similarity * 100) + '% similar'
+  return '- ' + extractDirective(duplicate.rule) + '\n  matches (' + score + '): ' + extractDirective(duplicate.match)
+}
+
+type AddReport = {
+  added: Array<string>
+  skipped: Array<DuplicateMatch>
+  near: Array<DuplicateMatch>
+}
+
+// list which rules were appended, which resemble an existing rule, and which were skipped as exact repeats
+export const formatAddReport = (path: string, report: AddReport): string => {
+  const sections = ['Added ' + report.added.length + ' rule(s) to ' + path]
+
+  if (report.added.length > 0) {
+    sections.push(report.added.map((rule) => '- ' + extractDirective(rule)).join('\n'))
+  }
+
+  if (report.near.length > 0) {
+    sections.push(
+      'Added ' + report.near.length + ' rule(s) similar to an existing rule; check they are not repeats:\n'
+        + report.near.map(formatDuplicate).join('\n'),
+    )
+  }
+
+  if (report.skipped.length > 0) {
+    sections.push(
+      'Skipped ' + report.skipped.length + ' duplicate rule(s):\n' + report.skipped.map(formatDuplicate).join('\n'),
+    )
+  }
+
+  return sections.join('\n\n')
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'bun:test'
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { listSnapshots, restoreSnapshot, saveSnapshot } from './backup.ts'
+
+describe('backups', () => {
+  let dir: string
+
+  const setup = async (content: string) => {
+    dir = await mkdtemp(join(tmpdir(), 'sat-backup-'))
+    const filePath = join(dir, 'instructions.md')
+    await writeFile(filePath, content, 'utf-8')
+    return filePath
+  }
+
+  const cleanup = async () => {
+    if (dir) {
+      await rm(dir, { recursive: true, force: true })
+    }
+  }
+
+  it('saves a snapshot keyed by timestamp and path', async () => {
+    const filePath = await setup('original\n')
+
+    const result = await saveSnapshot({ directory: dir, path: filePath, content: 'original\n' })
+
+    expect(result.error).toBeNull()
+    expect(result.data?.id).toContain('instructions.md')
+    expect(result.data?.content).toBe('original\n')
+
+    const raw = await readFile(join(dir, '.opencode', 'sat-backups', result.data?.id + '.json'), 'utf-8')
+    expect(JSON.parse(raw).path).toBe(filePath)
+
+    await cleanup()
+  })
+
+  it('gives snapshots of the same file distinct ids', async () => {
+    const filePath = await setup('a\n')
+
+    const first = await saveSnapshot({ directory: dir, path: filePath, content: 'a\n' })
+    const second = await saveSnapshot({ directory: dir, path: filePath, content: 'b\n' })
+
+    expect(first.data?.id).not.toBe(second.data?.id)
+
+    await cleanup()
+  })
+
+  it('lists snapshots newest first', async () => {
+    const filePath = await setup('a\n')
+
+    await saveSnapshot({ directory: dir, path: filePath, content: 'first\n' })
+    await Bun.sleep(2)
+    await saveSnapshot({ directory: dir, path: filePath, content: 'second\n' })
+
+    const snapshots = await listSnapshots(dir)
+
+    expect(snapshots.length).toBe(2)
+    expect(snapshots[0]?.content).toBe('second\n')
+    expect(snapshots[1]?.content).toBe('first\n')
+
+    await cleanup()
+  })
+
+  it('returns an empty list when no backups exist', async () => {
+    await setup('a\n')
+
+    expect(await listSnapshots(dir)).toEqual([])
+
+    await cleanup()
+  })
+
+  it('restores a snapshot and snapshots the replaced content', async () => {
+    const filePath = await setup('original\n')
+    const saved = await saveSnapshot({ directory: dir, path: filePath, content: 'original\n' })
+    await writeFile(filePath, 'rewritten\n', 'utf-8')
+
+    const result = await restoreSnapshot({ directory: dir, id: saved.data?.id || '' })
+
+    expect(result.status).toBe('success')
+    if (result.status === 'success') {
+      expect(result.original).toBe('rewritten\n')
+      expect(result.restored.content).toBe('original\n')
+    }
+
+    expect(await readFile(filePath, 'utf-8')).toBe('original\n')
+
+    const snapshots = await listSnapshots(dir)
+    expect(snapshots.map((s) => s.content)).toContain('rewritten\n')
+
+    await cleanup()
+  })
+
+  it('returns notFound for an unknown snapshot id', async () => {
+    await setup('a\n')
+
+    const result = await restoreSnapshot({ directory: dir, id: 'missing' })
+
+    expect(result.status).toBe('notFound')
+
+    await cleanup()
+  })
+
+  it('refuses ids that point outside the backup directory', async () => {
+    const path = await setup('a\n')
+    // a file shaped like a snapshot, two levels above the backup directory
+    const planted = { id: 'x', path, createdAt: '', content: 'planted\n' }
+    await writeFile(join(dir, 'x.json'), JSON.stringify(planted), 'utf-8')
+
+    const result = await restoreSnapshot({ directory: dir, id: '../../x' })
+
+    expect(result.status).toBe('notFound')
+    expect(await readFile(path, 'utf-8')).toBe('a\n')
+
+    await cleanup()
+  })
+})
@@ -0,0 +1,175 @@
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises'
+import { join, relative } from 'node:path'
+import { z } from 'zod'
+import { type Result, safe, safeAsync } from './safe.ts'
+
+export const BACKUP_DIR = join('.opencode', 'sat-backups')
+
+const SnapshotSchema = z.object({
+  id: z.string(),
+  path: z.string(),
+  createdAt: z.string(),
+  content: z.string(),
+})
+
+export type Snapshot = z.infer<typeof SnapshotSchema>
+
+// filesystem-safe id from the timestamp and the file path relative to the project
+const toSnapshotId = (directory: string, path: string, createdAt: string): string => {
+  const stamp = createdAt.replace(/[:.]/g, '-')
+  const slug = relative(directory, path).replace(/[^a-zA-Z0-9._-]+/g, '_')
+  return stamp + '--' + slug
+}
+
+type SaveSnapshotOptions = {
+  directory: string
+  path: string
+  content: string
+}
+
+// store the current content of a file before it is overwritten
+export const saveSnapshot = async (options: SaveSnapshotOptions): Promise<Result<Snapshot, string>> => {
+  const backupDir = join(options.directory, BACKUP_DIR)
+  const mkdirResult = await safeAsync(() => mkdir(backupDir, { recursive: true }))
+  if (mkdirResult.error) {
+    return {
+      data: null,
+      error: 'Could not create ' + backupDir + ': ' + mkdirResult.error.message,
+    }
+  }
+
+  const createdAt = new Date().toISOString()
+  const baseId = toSnapshotId(options.directory, options.path, createdAt)
+
+  // two writes to the same file within one millisecond get a numeric suffix
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const id = attempt === 0 ? baseId : baseId + '-' + attempt
+    const snapshot: Snapshot = { id, path: options.path, createdAt, content: options.content }
+    const writeResult = await safeAsync(() =>
+      writeFile(join(backupDir, id + '.json'), JSON.stringify(snapshot, null, 2), { encoding: 'utf-8', flag: 'wx' })
+    )
+
+    if (!writeResult.error) {
+      return {
+        data: snapshot,
+        error: null,
+      }
+    }
+
+    if (!('code' in writeResult.error) || writeResult.error.code !== 'EEXIST') {
+      return {
+        data: null,
+        error: 'Could not write snapshot for ' + options.path + ': ' + writeResult.error.message,
+      }
+    }
+  }
+
+  return {
+    data: null,
+    error: 'Could not write snapshot for ' + options.path + ': too many snapshots in the same millisecond',
+  }
+}
+
+const readSnapshot = async (file: string): Promise<Snapshot | null> => {
+  const readResult = await safeAsync(() => readFile(file, 'utf-8'))
+  if (readResult.error) {
+    return null
+  }
+
+  const parseResult = safe(() => JSON.parse(readResult.data))
+  if (parseResult.error) {
+    return null
+  }
+
+  const validated = SnapshotSchema.safeParse(parseResult.data)
+  return validated.success ? validated.data : null
+}
+
+// list stored snapshots, newest first, skipping unreadable entries
+export const listSnapshots = async (directory: string): Promise<Array<Snapshot>> => {
+  const backupDir = join(directory, BACKUP_DIR)
+  const entries = await safeAsync(() => readdir(backupDir))
+  if (entries.error) {
+    return []
+  }
+
+  const snapshots: Array<Snapshot> = []
+
+  for (const entry of entries.data) {
+    if (!entry.endsWith('.json')) continue
+
+    const snapshot = await readSnapshot(join(backupDir, entry))
+    if (snapshot) {
+      snapshots.push(snapshot)
+    }
+  }
+
+  return snapshots.sort((a, b) => b.id.localeCompare(a.id))
+}
+
+type RestoreResultSuccess = {
+  status: 'success'
+  path: string
+  original: string
+  restored: Snapshot
+}
+
+type RestoreResultError = {
+  status: 'notFound' | 'backupError' | 'writeError'
+  path: string
+  error: string
+}
+
+export type RestoreResult = RestoreResultSuccess | RestoreResultError
+
+// the characters toSnapshotId produces; anything else, such as a "/" in "../x", would leave the backup directory
+const SNAPSHOT_ID = /^[\w.-]+$/
+
+type RestoreSnapshotOptions = {
+  directory: string
+  id: string
+}
+
+// write a snapshot back to its file, snapshotting the current content first so the restore can be undone too
+export const restoreSnapshot = async (options: RestoreSnapshotOptions): Promise<RestoreResult> => {
+  const snapshot = SNAPSHOT_ID.test(options.id)
+    ? await readSnapshot(join(options.directory, BACKUP_DIR, options.id + '.json'))
+    : null
+  if (!snapshot || snapshot.id !== options.id) {
+    return {
+      status: 'notFound',
+      path: options.id,
+      error: 'No snapshot with id ' + options.id,
+    }
+  }
+
+  const current = await safeAsync(() => readFile(snapshot.path, 'utf-8'))
+  const original = current.error ? '' : current.data
+
+  if (!current.error) {
+    const saved = await saveSnapshot({ directory: options.directory, path: snapshot.path, content: original })
+    if (saved.error !== null) {
+      return {
+        status: 'backupError',
+        path: snapshot.path,
+        error: saved.error,
+      }
+    }
+  }
+
+  const writeResult = await safeAsync(() => writeFile(snapshot.path, snapshot.content, 'utf-8'))
+  if (writeResult.error) {
+    return {
+      status: 'writeError',
+      path: snapshot.path,
+      error: writeResult.error.message,
+    }
+  }
+
+  return {
+    status: 'success',
+    path: snapshot.path,
+    original,
+    restored: snapshot,
+  }
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'bun:test'
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { measureTokens, readTokenBudget } from './budget.ts'
+
+describe('readTokenBudget', () => {
+  let dir: string
+
+  const setup = async (settings?: string) => {
+    dir = await mkdtemp(join(tmpdir(), 'sat-budget-'))
+    if (settings !== undefined) {
+      await writeFile(join(dir, 'sat.json'), settings, 'utf-8')
+    }
+  }
+
+  const cleanup = async () => {
+    if (dir) {
+      await rm(dir, { recursive: true, force: true })
+    }
+  }
+
+  it('reads the budget from sat.json', async () => {
+    await setup(JSON.stringify({ tokenBudget: 2000 }))
+
+    const result = await readTokenBudget(dir)
+
+    expect(result).toEqual({ data: 2000, error: null })
+    await cleanup()
+  })
+
+  it('returns null without a budget or without sat.json', async () => {
+    await setup(JSON.stringify({ conventions: true }))
+    expect(await readTokenBudget(dir)).toEqual({ data: null, error: null })
+    await cleanup()
+
+    await setup()
+    expect(await readTokenBudget(dir)).toEqual({ data: null, error: null })
+    await cleanup()
+  })
+
+  it('rejects a budget that is not a positive integer', async () => {
+    await setup(JSON.stringify({ tokenBudget: '2000' }))
+
+    const result = await readTokenBudget(dir)
+
+    expect(result.data).toBeNull()
+    expect(result.error).toContain('"tokenBudget" in ' + join(dir, 'sat.json'))
+    await cleanup()
+  })
+
+  it('prefers the budget from the most specific config layer', async () => {
+    await setup(JSON.stringify({ tokenBudget: 2000 }))
+    await mkdir(join(dir, '.opencode'))
+    await writeFile(join(dir, '.opencode', 'sat.jsonc'), '{ "tokenBudget": 500, }', 'utf-8')
+
+    const result = await readTokenBudget(dir, { globalDirectory: join(dir, 'global') })
+
+    expect(result).toEqual({ data: 500, error: null })
+    await cleanup()
+  })
+
+  it('ignores settings in opencode.json', async () => {
+    await setup()
+    await writeFile(join(dir, 'opencode.json'), JSON.stringify({ sat: { tokenBudget: 2000 } }), 'utf-8')
+
+    expect(await readTokenBudget(dir)).toEqual({ data: null, error: null })
+    await cleanup()
+  })
+
+  it('reports invalid JSON', async () => {
+    await setup('{ not json')
+
+    const result = await readTokenBudget(dir)
+
+    expect(result.error).toContain('Invalid JSON')
+    await cleanup()
+  })
+})
+
+describe('measureTokens', () => {
+  const files = [
+    { path: 'a.md', content: 'Never use non-null assertions.' },
+    { path: 'b.md', content: 'Prefer arrow functions.' },
+    { path: 'c.md', content: '', error: 'ENOENT' },
+  ]
+
+  it('totals the tokens of readable files', () => {
+    const usage = measureTokens(files, null)
+
+    expect(usage.files.map((f) => f.path)).toEqual(['a.md', 'b.md'])
+    expect(usage.total).toEqual(usage.files.reduce((sum, f) => sum + f.tokens, 0))
+    expect(usage.excess).toEqual(0)
+  })
+
+  it('reports the excess over the budget', () => {
+    const usage = measureTokens(files, 5)
+
+    expect(usage.budget).toEqual(5)
+    expect(usage.excess).toEqual(usage.total - 5)
+  })
+
+  it('reports no excess within the budget', () => {
+    expect(measureTokens(files, 1000).excess).toEqual(0)
+  })
+})
@@ -0,0 +1,86 @@
+import { relative } from 'node:path'
+import { type ConfigOptions, readSettingLayers, satSetting } from './config.ts'
+import type { InstructionFile } from './discover.ts'
+import { isUrl } from './remote.ts'
+import type { Result } from './safe.ts'
+import { estimateTokens } from './tokens.ts'
+
+// read "tokenBudget" from the sat.json layers, the most specific layer winning; null when no layer sets it
+export const readTokenBudget = async (
+  directory: string,
+  options?: ConfigOptions,
+): Promise<Result<number | null, string>> => {
+  const layersResult = await readSettingLayers(directory, options)
+  if (layersResult.error !== null) {
+    return {
+      data: null,
+      error: layersResult.error,
+    }
+  }
+
+  const setting = satSetting(layersResult.data, 'tokenBudget')
+  if (!setting) {
+    return {
+      data: null,
+      error: null,
+    }
+  }
+
+  const budget = setting.value
+  if (typeof budget !== 'number' || !Number.isInteger(budget) || budget <= 0) {
+    return {
+      data: null,
+      error: 'Invalid "tokenBudget" in ' + setting.path + ': expected a positive integer',
+    }
+  }
+
+  return {
+    data: budget,
+    error: null,
+  }
+}
+
+export type TokenUsage = {
+  files: Array<{ path: string; tokens: number }>
+  total: number
+  budget: number | null
+  // tokens over the budget, 0 when within it or when no budget is set
+  excess: number
+}
+
+// estimate the tokens every session loads from the readable instruction files
+export const measureTokens = (files: Array<InstructionFile>, budget: number | null): TokenUsage => {
+  const measured = files.filter((file) => !file.error).map((file) => ({
+    path: file.path,
+    tokens: estimateTokens(file.content),
+  }))
+  const total = measured.reduce((sum, file) => sum + file.tokens, 0)
+
+  return {
+    files: measured,
+    total,
+    budget,
+    excess: budget === null ? 0 : Math.max(total - budget, 0),
+  }
+}
+
+// per-file and total token estimates, with a warning when the configured budget is exceeded
+export const formatTokenUsage = (directory: string, usage: TokenUsage): string => {
+  const lines = usage.files.map((file) => {
+    const name = isUrl(file.path) ? file.path : relative(directory, file.path)
+    return '- ' + name + ': ~' + file.tokens + ' tokens'
+  })
+  const total = 'Instruction files load ~' + usage.total + ' tokens per session'
+    + (usage.budget !== null ? ' (budget ' + usage.budget + ')' : '')
+
+  const sections = [total + '\n\n' + lines.join('\n')]
+
+  if (usage.excess > 0) {
+    sections.push(
+      'Warning: instruction files exceed the configured token budget by ~' + usage.excess + ' tokens. '
+        + 'Consider rewriting them in concise mode or consolidating repeated rules.',
+    )
+  }
+
+  return sections.join('\n\n')
+}
@@ -0,0 +1,194 @@
+import { describe, expect, it } from 'bun:test'
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { runCli } from './cli.ts'
+
+const ORIGINAL = 'Never use non-null assertions because they hide bugs.\n'
+
+const PARSED = JSON.stringify({
+  rules: [{ strength: 'forbidden', action: 'use', target: 'non-null assertions', reason: 'they hide bugs' }],
+})
+
+describe('runCli', () => {
+  let dir: string
+  let out: Array<string>
+  let err: Array<string>
+
+  const setup = async (config: object = { instructions: ['rules.md'] }) => {
+    dir = await mkdtemp(join(tmpdir(), 'sat-cli-'))
+    out = []
+    err = []
+    await writeFile(join(dir, 'opencode.json'), JSON.stringify(config), 'utf-8')
+    await writeFile(join(dir, 'rules.md'), ORIGINAL, 'utf-8')
+  }
+
+  const run = async (...argv: Array<string>) => {
+    return await runCli(argv, {
+      cwd: dir,
+      out: (text) => out.push(text),
+      err: (text) => err.push(text),
+    })
+  }
+
+  const cleanup = async () => {
+    if (dir) {
+      await rm(dir, { recursive: true, force: true })
+    }
+  }
+
+  it('prints usage and exits 2 without a command', async () => {
+    await setup()
+
+    expect(await run()).toBe(2)
+    expect(out.join('\n')).toContain('Usage: sat')
+
+    await cleanup()
+  })
+
+  it('rejects unknown commands and options', async () => {
+    await setup()
+
+    expect(await run('format')).toBe(2)
+    expect(err.join('\n')).toContain('Unknown command "format"')
+    expect(await run('stats', '--bogus')).toBe(2)
+
+    await cleanup()
+  })
+
+  it('discovers files from opencode.json with token estimates', async () => {
+    await setup()
+
+    expect(await run('discover')).toBe(0)
+    expect(out.join('\n')).toContain('- rules.md: ~')
+    expect(out.join('\n')).toContain('tokens per session')
+
+    await cleanup()
+  })
+
+  it('validates parsed rules and reports schema errors', async () => {
+    await setup()
+    await writeFile(join(dir, 'parsed.json'), PARSED, 'utf-8')
+    await writeFile(join(dir, 'bad.json'), JSON.stringify({ rules: [{ strength: 'must' }] }), 'utf-8')
+
+    expect(await run('validate', '--rules', 'parsed.json')).toBe(0)
+    expect(out.join('\n')).toContain('Valid: 1 rule(s)')
+
+    expect(await run('validate', '--rules', 'bad.json')).toBe(1)
+    expect(err.join('\n')).toContain('Schema validation failed')
+
+    await cleanup()
+  })
+
+  it('rejects invented rules when validating', async () => {
+    await setup()
+    await writeFile(
+      join(dir, 'invented.json'),
+      JSON.stringify({ rules: [{ strength: 'obligatory', action: 'enable', target: 'strict tsconfig', reason: '' }] }),
+      'utf-8',
+    )
+
+    expect(await run('validate', '--rules', 'invented.json')).toBe(1)
+    expect(err.join('\n')).toContain('Fidelity check failed')
+
+    await cleanup()
+  })
+
+  it('rewrites discovered files from parsed rules and prints the comparison table', async () => {
+    await setup()
+    await writeFile(join(dir, 'parsed.json'), PARSED, 'utf-8')
+
+    expect(await run('rewrite', '--rules', 'parsed.json', '--mode', 'verbose')).toBe(0)
+    expect(out.join('\n')).toContain('TOTAL')
+
+    const content = await readFile(join(dir, 'rules.md'), 'utf-8')
+    expect(content).toBe('Rule: Do not use non-null assertions.\nReason: They hide bugs.\n')
+
+    await cleanup()
+  })
+
+  it('previews a rewrite without writing', async () => {
+    await setup()
+    await writeFile(join(dir, 'formatted.json'), JSON.stringify({ rules: ['- Do not use non-null assertions.'] }))
+
+    expect(await run('rewrite', '--rules', 'formatted.json', '--dry-run')).toBe(0)
+    expect(out.join('\n')).toContain('```diff')
+    expect(await readFile(join(dir, 'rules.md'), 'utf-8')).toBe(ORIGINAL)
+
+    await cleanup()
+  })
+
+  it('prints JSON results', async () => {
+    await setup()
+    await writeFile(join(dir, 'parsed.json'), PARSED, 'utf-8')
+
+    expect(await run('rewrite', '--rules', 'parsed.json', '--dry-run', '--output', 'json')).toBe(0)
+
+    const report = JSON.parse(out.join('\n'))
+    expect(report.results[0].status).toBe('preview')
+    expect(report.summary.totalOriginal).toBeGreaterThan(0)
+
+    await cleanup()
+  })
+
+  it('requires --rules for rewrite', async () => {
+    await setup()
+
+    expect(await run('rewrite')).toBe(2)
+    expect(err.join('\n')).toContain('Missing --rules')
+
+    await cleanup()
+  })
+
+  it('adds rules to the first discovered file, skipping duplicates', async () => {
+    await setup()
+    await writeFile(
+      join(dir, 'formatted.json'),
+      JSON.stringify({ rules: ['- Never use non-null assertions because they hide bugs.', '- Prefer arrow functions.'] }),
+    )
+
+    expect(await run('add', '--rules', 'formatted.json')).toBe(0)
+    expect(out.join('\n')).toContain('Added 1 rule(s) to rules.md')
+    expect(out.join('\n')).toContain('Skipped 1 duplicate rule(s)')
+
+    const content = await readFile(join(dir, 'rules.md'), 'utf-8')
+    expect(content).toBe(ORIGINAL + '\n- Prefer arrow functions.\n')
+
+    await cleanup()
+  })
+
+  it('converts formatted files between modes', async () => {
+    await setup()
+    await writeFile(join(dir, 'rules.md'), 'Rule: Do not use non-null assertions.\nReason: They hide bugs.\n')
+
+    expect(await run('convert', '--mode', 'concise')).toBe(0)
+    expect(await readFile(join(dir, 'rules.md'), 'utf-8')).toBe('- Do not use non-null assertions.\n')
+
+    await cleanup()
+  })
+
+  it('fails stats when the token budget is exceeded', async () => {
+    await setup()
+    await writeFile(join(dir, 'sat.json'), JSON.stringify({ tokenBudget: 2 }))
+
+    expect(await run('stats')).toBe(1)
+    expect(out.join('\n')).toContain('rules.md: 1 rule(s)')
+    expect(out.join('\n')).toContain('Warning')
+
+    await cleanup()
+  })
+
+  it('lints files and exits 1 on problems', async () => {
+    await setup()
+
+    expect(await run('lint')).toBe(1)
+    expect(out.join('\n')).toContain('rules.md:1  block-format')
+
+    await writeFile(join(dir, 'rules.md'), '- Do not use non-null assertions.\n')
+    out = []
+    expect(await run('lint', '--output', 'json')).toBe(0)
+    expect(JSON.parse(out.join('\n'))).toEqual([])
+
+    await cleanup()
+  })
+})
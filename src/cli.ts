@@ -0,0 +1,518 @@
+import { readFile } from 'node:fs/promises'
+import { basename, relative, resolve } from 'node:path'
+import { parseArgs } from 'node:util'
+import { appendRules, formatAddReport } from './append.ts'
+import { formatTokenUsage, measureTokens, readTokenBudget } from './budget.ts'
+import { buildJsonReport, buildSectionTable, buildTable, type TableRow, toSectionRows, toTableRow } from './compare.ts'
+import { countRules } from './consolidate.ts'
+import { CONVERSION_LABELS, planConversion } from './convert.ts'
+import { formatDiffs } from './diff.ts'
+import type { DiscoverOptions, InstructionFile } from './discover.ts'
+import { checkFidelity } from './fidelity.ts'
+import { formatRules } from './format-rules.ts'
+import { formatDiagnostics, lintFiles } from './lint.ts'
+import { parseFormattedRules } from './parse-formatted.ts'
+import { checkProvenance } from './provenance.ts'
+import { isUrl, READ_ONLY_ERROR } from './remote.ts'
+import { resolveFiles } from './resolve.ts'
+import { type FileResult, processFile, processFiles } from './rewrite.ts'
+import {
+  FormatResponseSchema,
+  type Mode,
+  ModeSchema,
+  type OutputFormat,
+  OutputFormatSchema,
+  ParseResponseSchema,
+  SectionedFormatResponseSchema,
+} from './rule-schema.ts'
+import { type Result, safe, safeAsync } from './safe.ts'
+import type { SectionRules } from './sections.ts'
+import { formatValidationError, validateJson } from './validate.ts'
+
+export type CliIo = {
+  cwd: string
+  out: (text: string) => void
+  err: (text: string) => void
+}
+
+const USAGE = [
+  'Usage: sat <command> [options]',
+  '',
+  'Commands:',
+  '  discover                 List instruction files from the opencode configs with token estimates',
+  '  validate --rules <file>  Validate parsed rules JSON against the schema and the discovered files',
+  '  rewrite --rules <file>   Replace instruction files with formatted rules',
+  '  add --rules <file>       Append formatted rules to an instruction file, skipping duplicates',
+  '  convert --mode <mode>    Switch formatted files between verbose, balanced, and concise',
+  '  stats                    Show rules, bytes, and tokens per file, failing when over the token budget',
+  '  lint                     Check files against the formats this plugin produces, failing on any problem',
+  '',
+  'Options:',
+  '  --files <paths>          Comma-separated files to use instead of discovering from opencode.json',
+  '  --conventions            Also discover AGENTS.md, CLAUDE.md, .cursorrules, and copilot-instructions.md',
+  '  --file <path>            File to append to with add (default: first discovered file)',
+  '  --rules <file>           JSON file with parsed rules or formatted rule strings',
+  '  --mode <mode>            verbose | balanced | concise (default: balanced)',
+  '  --sections               Rewrite only the prose under the headings named in the rules file',
+  '  --keep-duplicates        Append rules even when they repeat an existing rule',
+  '  --dry-run                Print a unified diff instead of writing',
+  '  --output <format>        table | markdown | json (default: table)',
+  '  --help                   Show this help',
+].join('\n')
+
+const OPTIONS = {
+  'files': { type: 'string' },
+  'conventions': { type: 'boolean' },
+  'file': { type: 'string' },
+  'rules': { type: 'string' },
+  'mode': { type: 'string' },
+  'sections': { type: 'boolean' },
+  'keep-duplicates': { type: 'boolean' },
+  'dry-run': { type: 'boolean' },
+  'output': { type: 'string' },
+  'help': { type: 'boolean' },
+} as const
+
+type CliArgs = {
+  files?: string
+  conventions?: boolean
+  file?: string
+  rules?: string
+  mode?: string
+  sections?: boolean
+  'keep-duplicates'?: boolean
+  'dry-run'?: boolean
+  output?: string
+}
+
+type Command = (args: CliArgs, io: CliIo) => Promise<number>
+
+// exit codes: 0 on success, 1 when a file or rule failed, 2 for usage errors
+const EXIT_FAILURE = 1
+const EXIT_USAGE = 2
+
+const readRulesFile = async (cwd: string, path?: string): Promise<Result<string, string>> => {
+  if (!path) {
+    return { data: null, error: 'Missing --rules <file>' }
+  }
+
+  const readResult = await safeAsync(() => readFile(resolve(cwd, path), 'utf-8'))
+  if (readResult.error) {
+    return { data: null, error: 'Could not read ' + path + ': ' + readResult.error.message }
+  }
+
+  return { data: readResult.data, error: null }
+}
+
+// without the flag, discovery falls back to "sat.conventions" in the configs
+const discoverOptions = (args: CliArgs): DiscoverOptions => {
+  return args.conventions ? { conventions: true } : {}
+}
+
+const parseMode = (mode?: string): Result<Mode, string> => {
+  const parsed = ModeSchema.safeParse(mode || 'balanced')
+  if (!parsed.success) {
+    return { data: null, error: 'Invalid mode "' + mode + '". Use verbose, balanced, or concise.' }
+  }
+
+  return { data: parsed.data, error: null }
+}
+
+const parseOutput = (output?: string): Result<OutputFormat, string> => {
+  const parsed = OutputFormatSchema.safeParse(output || 'table')
+  if (!parsed.success) {
+    return { data: null, error: 'Invalid output "' + output + '". Use table, markdown, or json.' }
+  }
+
+  return { data: parsed.data, error: null }
+}
+
+// rule objects from parse-rules are formatted locally, strings from format-rules are used as they are
+const isParsedJson = (json: string): boolean => {
+  const parsed = safe(() => JSON.parse(json))
+  const rules = parsed.error ? null : parsed.data?.rules
+  return Array.isArray(rules) && rules.length > 0 && typeof rules[0] === 'object'
+}
+
+const loadRules = (json: string, mode: Mode): Result<Array<string>, string> => {
+  if (isParsedJson(json)) {
+    const validated = validateJson(json, ParseResponseSchema)
+    if (validated.error !== null) {
+      return { data: null, error: formatValidationError(validated) }
+    }
+
+    return { data: formatRules(validated.data.rules, mode), error: null }
+  }
+
+  const validated = validateJson(json, FormatResponseSchema)
+  if (validated.error !== null) {
+    return { data: null, error: formatValidationError(validated) }
+  }
+
+  return { data: validated.data.rules, error: null }
+}
+
+const loadSections = (json: string): Result<Array<SectionRules>, string> => {
+  const validated = validateJson(json, SectionedFormatResponseSchema)
+  if (validated.error !== null) {
+    return { data: null, error: formatValidationError(validated) }
+  }
+
+  return { data: validated.data.sections, error: null }
+}
+
+type RewriteContent = { rules: Array<string> } | { sections: Array<SectionRules> }
+
+const loadRewriteContent = (json: string, mode: Mode, sections?: boolean): Result<RewriteContent, string> => {
+  if (sections) {
+    const loaded = loadSections(json)
+    return loaded.error !== null ? loaded : { data: { sections: loaded.data }, error: null }
+  }
+
+  const loaded = loadRules(json, mode)
+  return loaded.error !== null ? loaded : { data: { rules: loaded.data }, error: null }
+}
+
+const isFailure = (result: { status: string }): boolean => {
+  return result.status !== 'success' && result.status !== 'preview'
+}
+
+// print the results table, or the raw results as JSON, followed by any preview diffs
+const printResults = (io: CliIo, results: Array<FileResult>, output: OutputFormat, rows?: Array<TableRow>) => {
+  if (output === 'json') {
+    io.out(buildJsonReport(results))
+    return
+  }
+
+  const table = buildTable(rows || results.map(toTableRow), output)
+  const sectionTable = buildSectionTable(results.flatMap(toSectionRows), output)
+  io.out(sectionTable.length > 0 ? table + '\n\n' + sectionTable : table)
+
+  const previews = results.flatMap((r) => r.status === 'preview' ? [r] : [])
+  if (previews.length > 0) {
+    io.out('\n' + formatDiffs(previews))
+  }
+}
+
+const discoverCommand: Command = async (args, io) => {
+  const resolved = await resolveFiles(io.cwd, args.files, discoverOptions(args))
+  if (resolved.error !== null) {
+    io.err(resolved.error)
+    return EXIT_FAILURE
+  }
+
+  const budget = await readTokenBudget(io.cwd)
+  if (budget.error !== null) {
+    io.err(budget.error)
+    return EXIT_FAILURE
+  }
+
+  for (const file of resolved.data.filter((f) => f.error)) {
+    io.err('Could not read ' + relative(io.cwd, file.path) + ': ' + file.error)
+  }
+
+  io.out(formatTokenUsage(io.cwd, measureTokens(resolved.data, budget.data)))
+  return resolved.data.some((file) => file.error) ? EXIT_FAILURE : 0
+}
+
+const validateCommand: Command = async (args, io) => {
+  const json = await readRulesFile(io.cwd, args.rules)
+  if (json.error !== null) {
+    io.err(json.error)
+    return EXIT_USAGE
+  }
+
+  const validated = validateJson(json.data, ParseResponseSchema)
+  if (validated.error !== null) {
+    io.err(formatValidationError(validated))
+    return EXIT_FAILURE
+  }
+
+  const rules = validated.data.rules
+  const resolved = await resolveFiles(io.cwd, args.files, discoverOptions(args))
+  const files: Array<InstructionFile> = resolved.error === null ? resolved.data : []
+
+  const sourced = rules.map((rule) => {
+    return rule.source ? { ...rule, source: { ...rule.source, path: resolve(io.cwd, rule.source.path) } } : rule
+  })
+  const provenance = checkProvenance(sourced, files)
+  if (provenance.length > 0) {
+    io.err(formatValidationError({ data: null, error: 'check', check: 'Provenance', issues: provenance }))
+    return EXIT_FAILURE
+  }
+
+  const sources = files.filter((file) => !file.error).map((file) => file.content)
+  const fidelity = sources.length > 0 ? checkFidelity(rules, sources) : []
+  if (fidelity.length > 0) {
+    io.err(formatValidationError({ data: null, error: 'check', check: 'Fidelity', issues: fidelity }))
+    return EXIT_FAILURE
+  }
+
+  io.out('Valid: ' + rules.length + ' rule(s)')
+  return 0
+}
+
+const rewriteCommand: Command = async (args, io) => {
+  const mode = parseMode(args.mode)
+  if (mode.error !== null) {
+    io.err(mode.error)
+    return EXIT_USAGE
+  }
+
+  const output = parseOutput(args.output)
+  if (output.error !== null) {
+    io.err(output.error)
+    return EXIT_USAGE
+  }
+
+  const json = await readRulesFile(io.cwd, args.rules)
+  if (json.error !== null) {
+    io.err(json.error)
+    return EXIT_USAGE
+  }
+
+  const content = loadRewriteContent(json.data, mode.data, args.sections)
+  if (content.error !== null) {
+    io.err(content.error)
+    return EXIT_FAILURE
+  }
+
+  const resolved = await resolveFiles(io.cwd, args.files, discoverOptions(args))
+  if (resolved.error !== null) {
+    io.err(resolved.error)
+    return EXIT_FAILURE
+  }
+
+  const results = await processFiles({
+    jobs: resolved.data.map((file) => ({ file, ...content.data })),
+    dryRun: args['dry-run'],
+    backupDirectory: io.cwd,
+  })
+
+  printResults(io, results, output.data)
+  return results.some(isFailure) ? EXIT_FAILURE : 0
+}
+
+const addCommand: Command = async (args, io) => {
+  const mode = parseMode(args.mode)
+  if (mode.error !== null) {
+    io.err(mode.error)
+    return EXIT_USAGE
+  }
+
+  const output = parseOutput(args.output)
+  if (output.error !== null) {
+    io.err(output.error)
+    return EXIT_USAGE
+  }
+
+  const json = await readRulesFile(io.cwd, args.rules)
+  if (json.error !== null) {
+    io.err(json.error)
+    return EXIT_USAGE
+  }
+
+  const rules = loadRules(json.data, mode.data)
+  if (rules.error !== null) {
+    io.err(rules.error)
+    return EXIT_FAILURE
+  }
+
+  if (args.file && isUrl(args.file)) {
+    io.err(READ_ONLY_ERROR + ': ' + args.file)
+    return EXIT_FAILURE
+  }
+
+  let targetPath = args.file ? resolve(io.cwd, args.file) : undefined
+
+  if (!targetPath) {
+    const resolved = await resolveFiles(io.cwd, undefined, discoverOptions(args))
+    if (resolved.error !== null) {
+      io.err(resolved.error)
+      return EXIT_FAILURE
+    }
+
+    const first = resolved.data.find((file) => !file.readOnly)
+    if (!first) {
+      io.err('No instruction files found in opencode.json')
+      return EXIT_FAILURE
+    }
+
+    targetPath = first.path
+  }
+
+  const result = await appendRules({
+    filePath: targetPath,
+    rules: rules.data,
+    dryRun: args['dry-run'],
+    keepDuplicates: args['keep-duplicates'],
+    backupDirectory: io.cwd,
+  })
+
+  if (output.data === 'json') {
+    io.out(buildJsonReport([result]))
+    return isFailure(result) ? EXIT_FAILURE : 0
+  }
+
+  if (result.status !== 'success' && result.status !== 'preview') {
+    io.err(result.status + ': ' + result.error)
+    return EXIT_FAILURE
+  }
+
+  io.out(formatAddReport(relative(io.cwd, result.path), result))
+  io.out('\n' + buildTable([toTableRow(result)], output.data))
+
+  if (result.status === 'preview') {
+    io.out('\n' + formatDiffs([result]))
+  }
+
+  return 0
+}
+
+const convertCommand: Command = async (args, io) => {
+  if (!args.mode) {
+    io.err('Missing --mode <mode>')
+    return EXIT_USAGE
+  }
+
+  const mode = parseMode(args.mode)
+  if (mode.error !== null) {
+    io.err(mode.error)
+    return EXIT_USAGE
+  }
+
+  const output = parseOutput(args.output)
+  if (output.error !== null) {
+    io.err(output.error)
+    return EXIT_USAGE
+  }
+
+  const resolved = await resolveFiles(io.cwd, args.files, discoverOptions(args))
+  if (resolved.error !== null) {
+    io.err(resolved.error)
+    return EXIT_FAILURE
+  }
+
+  const rows: Array<TableRow> = []
+  const results: Array<FileResult> = []
+
+  for (const file of resolved.data) {
+    const plan = file.error ? null : planConversion(file.content, mode.data)
+
+    if (plan && plan.status !== 'ready') {
+      rows.push({ file: basename(file.path), status: CONVERSION_LABELS[plan.status] })
+      continue
+    }
+
+    const result = await processFile({
+      file,
+      rules: plan ? plan.rules : [],
+      dryRun: args['dry-run'],
+      backupDirectory: io.cwd,
+    })
+
+    results.push(result)
+    rows.push(toTableRow(result))
+  }
+
+  printResults(io, results, output.data, rows)
+  return results.some(isFailure) ? EXIT_FAILURE : 0
+}
+
+const statsCommand: Command = async (args, io) => {
+  const resolved = await resolveFiles(io.cwd, args.files, discoverOptions(args))
+  if (resolved.error !== null) {
+    io.err(resolved.error)
+    return EXIT_FAILURE
+  }
+
+  const budget = await readTokenBudget(io.cwd)
+  if (budget.error !== null) {
+    io.err(budget.error)
+    return EXIT_FAILURE
+  }
+
+  const lines = resolved.data.map((file) => {
+    const name = relative(io.cwd, file.path)
+    if (file.error) {
+      return '- ' + name + ': ' + file.error
+    }
+
+    const mode = parseFormattedRules(file.content).mode || 'unformatted'
+    const bytes = new TextEncoder().encode(file.content).length
+    return '- ' + name + ': ' + countRules(file.content) + ' rule(s), ' + bytes + ' bytes, ' + mode
+  })
+
+  const usage = measureTokens(resolved.data, budget.data)
+  io.out(lines.join('\n') + '\n\n' + formatTokenUsage(io.cwd, usage))
+
+  return usage.excess > 0 || resolved.data.some((file) => file.error) ? EXIT_FAILURE : 0
+}
+
+const lintCommand: Command = async (args, io) => {
+  const output = parseOutput(args.output)
+  if (output.error !== null) {
+    io.err(output.error)
+    return EXIT_USAGE
+  }
+
+  const resolved = await resolveFiles(io.cwd, args.files, discoverOptions(args))
+  if (resolved.error !== null) {
+    io.err(resolved.error)
+    return EXIT_FAILURE
+  }
+
+  for (const file of resolved.data.filter((f) => f.error)) {
+    io.err('Could not read ' + relative(io.cwd, file.path) + ': ' + file.error)
+  }
+
+  const diagnostics = lintFiles(resolved.data)
+  const failed = diagnostics.length > 0 || resolved.data.some((file) => file.error)
+
+  if (output.data === 'json') {
+    io.out(JSON.stringify(diagnostics.map((d) => ({ ...d, path: relative(io.cwd, d.path) })), null, 2))
+    return failed ? EXIT_FAILURE : 0
+  }
+
+  if (diagnostics.length > 0) {
+    io.out(formatDiagnostics(diagnostics, (path) => relative(io.cwd, path)))
+    io.out('\n' + diagnostics.length + ' problem(s)')
+  }
+
+  return failed ? EXIT_FAILURE : 0
+}
+
+const COMMANDS: Record<string, Command> = {
+  discover: discoverCommand,
+  validate: validateCommand,
+  rewrite: rewriteCommand,
+  add: addCommand,
+  convert: convertCommand,
+  stats: statsCommand,
+  lint: lintCommand,
+}
+
+// run the sat CLI against io.cwd and return the process exit code
+export const runCli = async (argv: Array<string>, io: CliIo): Promise<number> => {
+  const parsed = safe(() => parseArgs({ args: argv, options: OPTIONS, allowPositionals: true }))
+  if (parsed.error) {
+    io.err(parsed.error.message + '\n\n' + USAGE)
+    return EXIT_USAGE
+  }
+
+  const { values, positionals } = parsed.data
+  const name = positionals[0]
+
+  if (values.help || !name) {
+    io.out(USAGE)
+    return values.help ? 0 : EXIT_USAGE
+  }
+
+  const command = COMMANDS[name]
+  if (!command || positionals.length > 1) {
+    io.err('Unknown command "' + positionals.join(' ') + '"\n\n' + USAGE)
+    return EXIT_USAGE
+  }
+
+  return await command(values, io)
+}
@@ -1,5 +1,13 @@
 import { describe, expect, it } from 'bun:test'
-import { buildTable, compareBytes, summarize, type TableRow } from './compare.ts'
+import {
+  buildJsonReport,
+  buildProvenanceTable,
+  buildSectionTable,
+  buildTable,
+  compareBytes,
+  summarize,
+  type TableRow,
+} from './compare.ts'
 
 describe('compareBytes', () => {
   it('detects savings when original is larger', () => {
@@ -31,6 +39,13 @@ describe('compareBytes', () => {
     expect(result.percentChange).toEqual(0)
   })
 
+  it('estimates tokens of both strings', () => {
+    const result = compareBytes('test.md', 'Never use non-null assertions.', 'No assertions.')
+
+    expect(result.originalTokens).toBeGreaterThan(result.generatedTokens)
+    expect(result.generatedTokens).toBeGreaterThan(0)
+  })
+
   it('correctly measures multi-byte characters', () => {
     const result = compareBytes('test.md', '\u00e9', 'e')
 
@@ -42,13 +57,31 @@ describe('compareBytes', () => {
 describe('summarize', () => {
   it('sums totals correctly', () => {
     const totals = summarize([
-      { file: 'a.md', originalBytes: 100, generatedBytes: 80, difference: 20, percentChange: 20 },
-      { file: 'b.md', originalBytes: 200, generatedBytes: 150, difference: 50, percentChange: 25 },
+      {
+        file: 'a.md',
+        originalBytes: 100,
+        generatedBytes: 80,
+        difference: 20,
+        percentChange: 20,
+        originalTokens: 25,
+        generatedTokens: 20,
+      },
+      {
+        file: 'b.md',
+        originalBytes: 200,
+        generatedBytes: 150,
+        difference: 50,
+        percentChange: 25,
+        originalTokens: 50,
+        generatedTokens: 37,
+      },
     ])
 
     expect(totals.totalOriginal).toEqual(300)
     expect(totals.totalGenerated).toEqual(230)
     expect(totals.totalDifference).toEqual(70)
+    expect(totals.totalOriginalTokens).toEqual(75)
+    expect(totals.totalGeneratedTokens).toEqual(57)
   })
 
   it('handles empty array', () => {
@@ -71,12 +104,28 @@ describe('buildTable', () => {
       file: 'a.md',
       status: 'Success',
       rules: 5,
-      comparison: { file: 'a.md', originalBytes: 100, generatedBytes: 80, difference: 20, percentChange: 20 },
+      comparison: {
+        file: 'a.md',
+        originalBytes: 100,
+        generatedBytes: 80,
+        difference: 20,
+        percentChange: 20,
+        originalTokens: 25,
+        generatedTokens: 20,
+      },
     }, {
       file: 'b.md',
       status: 'Success',
       rules: 3,
-      comparison: { file: 'b.md', originalBytes: 200, generatedBytes: 250, difference: -50, percentChange: -25 },
+      comparison: {
+        file: 'b.md',
+        originalBytes: 200,
+        generatedBytes: 250,
+        difference: -50,
+        percentChange: -25,
+        originalTokens: 50,
+        generatedTokens: 62,
+      },
     }]
     const table = buildTable(rows)
 
@@ -89,6 +138,9 @@ describe('buildTable', () => {
     expect(table.includes('b.md')).toEqual(true)
     expect(table.includes('TOTAL')).toEqual(true)
     expect(table.includes('INCREASED')).toEqual(true)
+    expect(table.includes('Tokens')).toEqual(true)
+    expect(table.includes('~25 \u2192 ~20')).toEqual(true)
+    expect(table.includes('~82 tokens per session')).toEqual(true)
   })
 
   it('shows SAVED when total is smaller', () => {
@@ -96,7 +148,15 @@ describe('buildTable', () => {
       file: 'a.md',
       status: 'Success',
       rules: 10,
-      comparison: { file: 'a.md', originalBytes: 200, generatedBytes: 100, difference: 100, percentChange: 50 },
+      comparison: {
+        file: 'a.md',
+        originalBytes: 200,
+        generatedBytes: 100,
+        difference: 100,
+        percentChange: 50,
+        originalTokens: 50,
+        generatedTokens: 25,
+      },
     }]
     const table = buildTable(rows)
 
@@ -108,12 +168,28 @@ describe('buildTable', () => {
       file: 'small.md',
       status: 'Success',
       rules: 2,
-      comparison: { file: 'small.md', originalBytes: 100, generatedBytes: 95, difference: 5, percentChange: 5 },
+      comparison: {
+        file: 'small.md',
+        originalBytes: 100,
+        generatedBytes: 95,
+        difference: 5,
+        percentChange: 5,
+        originalTokens: 25,
+        generatedTokens: 23,
+      },
     }, {
       file: 'big.md',
       status: 'Success',
       rules: 8,
-      comparison: { file: 'big.md', originalBytes: 500, generatedBytes: 300, difference: 200, percentChange: 40 },
+      comparison: {
+        file: 'big.md',
+        originalBytes: 500,
+        generatedBytes: 300,
+        difference: 200,
+        percentChange: 40,
+        originalTokens: 125,
+        generatedTokens: 75,
+      },
     }]
     const table = buildTable(rows)
     const bigIdx = table.indexOf('big.md')
@@ -127,7 +203,15 @@ describe('buildTable', () => {
       file: 'good.md',
       status: 'Success',
       rules: 5,
-      comparison: { file: 'good.md', originalBytes: 200, generatedBytes: 150, difference: 50, percentChange: 25 },
+      comparison: {
+        file: 'good.md',
+        originalBytes: 200,
+        generatedBytes: 150,
+        difference: 50,
+        percentChange: 25,
+        originalTokens: 50,
+        generatedTokens: 37,
+      },
     }, {
       file: 'bad.md',
       status: 'Parse failed',
@@ -163,6 +247,8 @@ describe('buildTable', () => {
         generatedBytes: 481,
         difference: 61,
         percentChange: 11.3,
+        originalTokens: 135,
+        generatedTokens: 120,
       },
     }, {
       file: 'guidelines.md',
@@ -174,6 +260,8 @@ describe('buildTable', () => {
         generatedBytes: 980,
         difference: 220,
         percentChange: 18.3,
+        originalTokens: 300,
+        generatedTokens: 245,
       },
     }, {
       file: 'notes.md',
@@ -185,6 +273,8 @@ describe('buildTable', () => {
         generatedBytes: 350,
         difference: -50,
         percentChange: -16.7,
+        originalTokens: 75,
+        generatedTokens: 87,
       },
     }, {
       file: 'broken.md',
@@ -195,3 +285,93 @@ describe('buildTable', () => {
     expect(table.length).toBeGreaterThan(0)
   })
 })
+
+describe('buildTable markdown', () => {
+  const rows: TableRow[] = [{
+    file: 'a.md',
+    status: 'Success',
+    rules: 5,
+    comparison: compareBytes('a.md', 'Never use non-null assertions anywhere.', 'Do not use non-null assertions.'),
+  }, {
+    file: 'b|c.md',
+    status: 'Read failed',
+  }]
+
+  it('renders a GFM table with right-aligned numbers', () => {
+    const lines = buildTable(rows, 'markdown').split('\n')
+
+    expect(lines[0]).toEqual('| File | Status | Rules | Original | Generated | Diff | Change | Tokens |')
+    expect(lines[1]).toEqual('| --- | --- | ---: | ---: | ---: | ---: | ---: | ---: |')
+    expect(lines[2]?.startsWith('| a.md | Success | 5 | 39 | 31 | 8 |')).toEqual(true)
+  })
+
+  it('escapes pipes in cells and keeps the totals row and summary', () => {
+    const table = buildTable(rows, 'markdown')
+
+    expect(table.includes('| b\\|c.md | Read failed |')).toEqual(true)
+    expect(table.includes('| TOTAL |')).toEqual(true)
+    expect(table.includes('SAVED 8 bytes')).toEqual(true)
+  })
+})
+
+describe('buildJsonReport', () => {
+  it('returns the raw results with their summary', () => {
+    const comparison = compareBytes('a.md', 'original text', 'new')
+    const report = JSON.parse(buildJsonReport([
+      { status: 'success', path: '/p/a.md', rulesCount: 2, comparison },
+      { status: 'writeError', path: '/p/b.md', error: 'EACCES' },
+    ]))
+
+    expect(report.results.length).toEqual(2)
+    expect(report.results[1].error).toEqual('EACCES')
+    expect(report.summary.totalOriginal).toEqual(13)
+    expect(report.summary.totalGenerated).toEqual(3)
+  })
+})
+
+describe('buildSectionTable', () => {
+  it('returns empty string for no rows', () => {
+    expect(buildSectionTable([])).toEqual('')
+  })
+
+  it('lists rule counts per section', () => {
+    const table = buildSectionTable([
+      { file: 'git.md', section: 'Commit Format', rules: 4 },
+      { file: 'git.md', section: '', rules: 1 },
+    ])
+
+    expect(table.includes('Section')).toEqual(true)
+    expect(table.includes('Commit Format')).toEqual(true)
+    expect(table.includes('(preamble)')).toEqual(true)
+  })
+
+  it('renders markdown', () => {
+    const table = buildSectionTable([{ file: 'git.md', section: 'Scopes', rules: 2 }], 'markdown')
+
+    expect(table).toEqual('| File | Section | Rules |\n| --- | --- | ---: |\n| git.md | Scopes | 2 |')
+  })
+})
+
+describe('buildProvenanceTable', () => {
+  it('returns empty string for no rows', () => {
+    expect(buildProvenanceTable([])).toEqual('')
+  })
+
+  it('shows the original text next to the new rule', () => {
+    const table = buildProvenanceTable([{
+      source: 'instructions/typescript.md:5-6',
+      original: 'Never use non-null\n  assertions.',
+      rule: 'Do not use non-null assertions.',
+    }])
+
+    const row = table.split('\n').find((line) => line.includes('typescript.md'))
+    expect(row?.includes('Never use non-null assertions.')).toEqual(true)
+    expect(row?.includes('Do not use non-null assertions.')).toEqual(true)
+  })
+
+  it('wraps long text within its column', () => {
+    const table = buildProvenanceTable([{ source: 'a.md:1', original: 'word '.repeat(40), rule: 'Short rule.' }])
+
+    expect(table.split('\n').length).toBeGreaterThan(3)
+  })
+})
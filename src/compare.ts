@@ -1,6 +1,8 @@
 import Table from 'cli-table3'
 import { basename } from 'node:path'
+import type { AppendResult } from './append.ts'
 import type { FileResult } from './rewrite.ts'
+import { estimateTokens } from './tokens.ts'
 
 export type ComparisonResult = {
   file: string
@@ -8,9 +10,11 @@ export type ComparisonResult = {
   generatedBytes: number
   difference: number
   percentChange: number
+  originalTokens: number
+  generatedTokens: number
 }
 
-// compare byte sizes of two strings and return diff stats
+// compare byte sizes and estimated tokens of two strings and return diff stats
 export const compareBytes = (file: string, original: string, generated: string): ComparisonResult => {
   const originalBytes = new TextEncoder().encode(original).length
   const generatedBytes = new TextEncoder().encode(generated).length
@@ -23,6 +27,8 @@ export const compareBytes = (file: string, original: string, generated: string):
     generatedBytes,
     difference,
     percentChange,
+    originalTokens: estimateTokens(original),
+    generatedTokens: estimateTokens(generated),
   }
 }
 
@@ -32,11 +38,18 @@ const formatChange = (difference: number, percentChange: number): string => {
   return prefix + Math.abs(percentChange).toFixed(1) + '%'
 }
 
+// estimated tokens before and after, e.g. "~640 → ~410"
+const formatTokens = (original: number, generated: number): string => {
+  return '~' + original + ' \u2192 ~' + generated
+}
+
 export type ComparisonSummary = {
   totalOriginal: number
   totalGenerated: number
   totalDifference: number
   totalPercentChange: number
+  totalOriginalTokens: number
+  totalGeneratedTokens: number
 }
 
 // summarize an array of comparison results into totals
@@ -51,6 +64,8 @@ export const summarize = (results: ComparisonResult[]): ComparisonSummary => {
     totalGenerated,
     totalDifference,
     totalPercentChange,
+    totalOriginalTokens: results.reduce((sum, r) => sum + r.originalTokens, 0),
+    totalGeneratedTokens: results.reduce((sum, r) => sum + r.generatedTokens, 0),
   }
 }
 
@@ -73,21 +88,21 @@ const NO_BORDERS: Record<string, string> = {
   'middle': '  ',
 }
 
-export type TableRow = {
-  file: string
-  status: string
-  rules?: number
-  comparison?: ComparisonResult
-}
+type Cell = string | number
+type Align = 'left' | 'right'
 
-// build a results table as a string
-export const buildTable = (rows: TableRow[]): string => {
-  if (rows.length === 0) {
-    return ''
-  }
+type TextLayout = {
+  aligns?: Array<Align>
+  // fixed column widths that wrap longer cells; null keeps a column at its content width
+  widths?: Array<number | null>
+  // also draw a rule above the last row, which holds the totals
+  totalRow?: boolean
+}
 
+// borderless cli-table3 text with a rule under the header
+const renderText = (head: Array<string>, rows: Array<Array<Cell>>, layout: TextLayout = {}): string => {
   const table = new Table({
-    head: ['File', 'Status', 'Rules', 'Original', 'Generated', 'Diff', 'Change'],
+    head,
     chars: NO_BORDERS,
     style: {
       head: [],
@@ -95,18 +110,66 @@ export const buildTable = (rows: TableRow[]): string => {
       'padding-left': 0,
       'padding-right': 0,
     },
-    colAligns: ['left', 'left', 'right', 'right', 'right', 'right', 'right'],
+    ...(layout.aligns ? { colAligns: layout.aligns } : {}),
+    ...(layout.widths ? { colWidths: layout.widths, wordWrap: true } : {}),
   })
 
+  table.push(...rows)
+
+  const lines = table.toString().split('\n')
+  const width = lines.reduce((max, line) => Math.max(max, line.length), 0)
+  const separator = '\u2500'.repeat(width)
+  lines.splice(1, 0, separator)
+  if (layout.totalRow) {
+    lines.splice(lines.length - 1, 0, separator)
+  }
+
+  return lines.join('\n')
+}
+
+export type TableRow = {
+  file: string
+  status: string
+  rules?: number
+  comparison?: ComparisonResult
+}
+
+// cli-table3 text for terminals, or a GFM table for chat clients that render markdown
+export type TableFormat = 'table' | 'markdown'
+
+// escape pipes and flatten line breaks so a cell cannot break the table layout
+const markdownCell = (cell: Cell): string => {
+  return String(cell).replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ')
+}
+
+const renderMarkdown = (head: Array<string>, rows: Array<Array<Cell>>, aligns: Array<Align>): string => {
+  const line = (cells: Array<string>) => '| ' + cells.join(' | ') + ' |'
+
+  return [
+    line(head),
+    line(aligns.map((align) => align === 'right' ? '---:' : '---')),
+    ...rows.map((row) => line(row.map(markdownCell))),
+  ].join('\n')
+}
+
+const RESULT_HEAD = ['File', 'Status', 'Rules', 'Original', 'Generated', 'Diff', 'Change', 'Tokens']
+const RESULT_ALIGNS: Array<Align> = ['left', 'left', 'right', 'right', 'right', 'right', 'right', 'right']
+
+// build a results table as a string
+export const buildTable = (rows: TableRow[], format: TableFormat = 'table'): string => {
+  if (rows.length === 0) {
+    return ''
+  }
+
   const sorted = [...rows].sort((a, b) => {
     const aDiff = a.comparison ? Math.abs(a.comparison.difference) : 0
     const bDiff = b.comparison ? Math.abs(b.comparison.difference) : 0
     return bDiff - aDiff
   })
 
-  for (const row of sorted) {
+  const body: Array<Array<Cell>> = sorted.map((row) => {
     const c = row.comparison
-    table.push([
+    return [
       row.file,
       row.status,
       row.rules !== undefined ? row.rules : '',
@@ -114,8 +177,9 @@ export const buildTable = (rows: TableRow[]): string => {
       c ? c.generatedBytes : '',
       c ? c.difference : '',
       c ? formatChange(c.difference, c.percentChange) : '',
-    ])
-  }
+      c ? formatTokens(c.originalTokens, c.generatedTokens) : '',
+    ]
+  })
 
   const comparisons: ComparisonResult[] = []
   for (const row of rows) {
@@ -127,7 +191,7 @@ export const buildTable = (rows: TableRow[]): string => {
   const totals = summarize(comparisons)
   const totalRules = rows.reduce((sum, r) => sum + (r.rules !== undefined ? r.rules : 0), 0)
 
-  table.push([
+  const totalRow: Array<Cell> = [
     'TOTAL',
     '',
     totalRules > 0 ? totalRules : '',
@@ -135,38 +199,109 @@ export const buildTable = (rows: TableRow[]): string => {
     totals.totalGenerated > 0 ? totals.totalGenerated : '',
     totals.totalDifference !== 0 ? totals.totalDifference : '',
     totals.totalOriginal > 0 ? formatChange(totals.totalDifference, totals.totalPercentChange) : '',
-  ])
+    totals.totalOriginal > 0 ? formatTokens(totals.totalOriginalTokens, totals.totalGeneratedTokens) : '',
+  ]
 
-  // insert separator lines after header and before TOTAL
-  const lines = table.toString().split('\n')
-  const width = lines.reduce((max, line) => Math.max(max, line.length), 0)
-  const separator = '\u2500'.repeat(width)
-  lines.splice(1, 0, separator)
-  lines.splice(lines.length - 1, 0, separator)
+  let rendered: string
+
+  if (format === 'markdown') {
+    rendered = renderMarkdown(RESULT_HEAD, [...body, totalRow], RESULT_ALIGNS)
+  } else {
+    rendered = renderText(RESULT_HEAD, [...body, totalRow], { aligns: RESULT_ALIGNS, totalRow: true })
+  }
 
   if (totals.totalOriginal === 0) {
-    return lines.join('\n')
+    return rendered
   }
 
   const summary = (totals.totalDifference > 0 ? 'SAVED ' : 'INCREASED ')
     + Math.abs(totals.totalDifference)
     + ' bytes ('
     + Math.abs(totals.totalPercentChange).toFixed(1)
-    + '%)'
+    + '%), ~'
+    + totals.totalGeneratedTokens
+    + ' tokens per session'
 
-  return lines.join('\n') + '\n\n' + summary
+  return rendered + '\n\n' + summary
+}
+
+export type SectionRow = {
+  file: string
+  section: string
+  rules: number
+}
+
+// build a per-section rule count table for section-aware rewrites
+export const buildSectionTable = (rows: SectionRow[], format: TableFormat = 'table'): string => {
+  if (rows.length === 0) {
+    return ''
+  }
+
+  const body = rows.map((row) => [row.file, row.section.length > 0 ? row.section : '(preamble)', row.rules])
+
+  if (format === 'markdown') {
+    return renderMarkdown(['File', 'Section', 'Rules'], body, ['left', 'left', 'right'])
+  }
+
+  return renderText(['File', 'Section', 'Rules'], body, { aligns: ['left', 'left', 'right'] })
+}
+
+// flatten per-section counts of successful or previewed results into section table rows
+export const toSectionRows = (result: FileResult): SectionRow[] => {
+  if (result.status !== 'success' && result.status !== 'preview') {
+    return []
+  }
+
+  const sections = result.sections || []
+
+  return sections.map((section) => ({
+    file: basename(result.path),
+    section: section.heading,
+    rules: section.rulesCount,
+  }))
+}
+
+export type ProvenanceRow = {
+  source: string
+  original: string
+  rule: string
+}
+
+// wrap long quotes and rules so the original and new text line up side by side
+const PROVENANCE_COLUMN_WIDTH = 50
+
+// build an original-vs-new table for rules whose parsed form carries a source span
+export const buildProvenanceTable = (rows: ProvenanceRow[], format: TableFormat = 'table'): string => {
+  if (rows.length === 0) {
+    return ''
+  }
+
+  const body = rows.map((row) => [row.source, row.original.replace(/\s+/g, ' ').trim(), row.rule])
+
+  if (format === 'markdown') {
+    return renderMarkdown(['Source', 'Original', 'Rule'], body, ['left', 'left', 'left'])
+  }
+
+  return renderText(['Source', 'Original', 'Rule'], body, {
+    widths: [null, PROVENANCE_COLUMN_WIDTH, PROVENANCE_COLUMN_WIDTH],
+  })
 }
 
 const ERROR_LABELS: Record<string, string> = {
   readError: 'Read failed',
+  readOnly: 'Read-only',
+  sectionError: 'Section not found',
+  conflict: 'Changed on disk',
+  backupError: 'Backup failed',
   writeError: 'Write failed',
+  rolledBack: 'Rolled back',
 }
 
-export const toTableRow = (result: FileResult): TableRow => {
-  if (result.status === 'success') {
+export const toTableRow = (result: FileResult | AppendResult): TableRow => {
+  if (result.status === 'success' || result.status === 'preview') {
     return {
       file: basename(result.path),
-      status: 'Success',
+      status: result.status === 'success' ? 'Success' : 'Preview',
       rules: result.rulesCount,
       comparison: result.comparison,
     }
@@ -179,3 +314,9 @@ export const toTableRow = (result: FileResult): TableRow => {
     status: label,
   }
 }
+
+// raw results with their totals, for scripts and clients that parse the output
+export const buildJsonReport = (results: Array<FileResult | AppendResult>): string => {
+  const comparisons = results.flatMap((r) => r.status === 'success' || r.status === 'preview' ? [r.comparison] : [])
+  return JSON.stringify({ results, summary: summarize(comparisons) }, null, 2)
+}
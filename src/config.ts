@@ -0,0 +1,127 @@
+import { readFile } from 'node:fs/promises'
+import { homedir } from 'node:os'
+import { join } from 'node:path'
+import { parseJsonc } from './jsonc.ts'
+import { type Result, safeAsync } from './safe.ts'
+
+// global config in the user's config directory, opencode.json(c) in the project, then .opencode/ in the project
+export type ConfigLayerName = 'global' | 'project' | 'nested'
+
+export type ConfigLayer = {
+  layer: ConfigLayerName
+  // config file the layer was read from
+  path: string
+  // directory relative instruction patterns resolve against
+  base: string
+  config: Record<string, unknown>
+}
+
+export type ConfigOptions = {
+  // defaults to $XDG_CONFIG_HOME/opencode or ~/.config/opencode
+  globalDirectory?: string
+}
+
+const CONFIG_NAMES = ['opencode.json', 'opencode.jsonc']
+
+// the plugin's own settings live next to the opencode config, which rejects keys it does not know
+const SETTINGS_NAMES = ['sat.json', 'sat.jsonc']
+
+export const defaultGlobalDirectory = (): string => {
+  const configHome = process.env.XDG_CONFIG_HOME || join(homedir(), '.config')
+  return join(configHome, 'opencode')
+}
+
+type Location = {
+  layer: ConfigLayerName
+  directory: string
+  base: string
+}
+
+const locations = (directory: string, options?: ConfigOptions): Array<Location> => {
+  const globalDirectory = options?.globalDirectory || defaultGlobalDirectory()
+
+  return [
+    { layer: 'global', directory: globalDirectory, base: globalDirectory },
+    { layer: 'project', directory, base: directory },
+    { layer: 'nested', directory: join(directory, '.opencode'), base: directory },
+  ]
+}
+
+const isMissing = (error: Error): boolean => {
+  return 'code' in error && error.code === 'ENOENT'
+}
+
+// read every file of the given names that exists in each layer, lowest precedence first; missing files are skipped
+const readLayers = async (
+  directory: string,
+  names: Array<string>,
+  options?: ConfigOptions,
+): Promise<Result<Array<ConfigLayer>, string>> => {
+  const layers: Array<ConfigLayer> = []
+
+  for (const location of locations(directory, options)) {
+    for (const name of names) {
+      const configPath = join(location.directory, name)
+      const readResult = await safeAsync(() => readFile(configPath, 'utf-8'))
+      if (readResult.error) {
+        if (isMissing(readResult.error)) continue
+
+        return {
+          data: null,
+          error: 'Could not read ' + configPath + ': ' + readResult.error.message,
+        }
+      }
+
+      const parseResult = parseJsonc(readResult.data)
+      if (parseResult.error) {
+        return {
+          data: null,
+          error: 'Invalid JSON in ' + configPath + ': ' + parseResult.error.message,
+        }
+      }
+
+      const config = parseResult.data
+      if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+        return {
+          data: null,
+          error: 'Invalid JSON in ' + configPath + ': expected an object',
+        }
+      }
+
+      layers.push({ layer: location.layer, path: configPath, base: location.base, config })
+    }
+  }
+
+  return {
+    data: layers,
+    error: null,
+  }
+}
+
+// opencode.json and opencode.jsonc of every layer
+export const readConfigLayers = (directory: string, options?: ConfigOptions) => {
+  return readLayers(directory, CONFIG_NAMES, options)
+}
+
+// sat.json and sat.jsonc of every layer, holding the plugin's settings
+export const readSettingLayers = (directory: string, options?: ConfigOptions) => {
+  return readLayers(directory, SETTINGS_NAMES, options)
+}
+
+export type SatSetting = {
+  value: unknown
+  // settings file the value was read from
+  path: string
+}
+
+// the value for key from the most specific settings layer that sets it, null when none does
+export const satSetting = (layers: Array<ConfigLayer>, key: string): SatSetting | null => {
+  for (const layer of layers.toReversed()) {
+    const value = layer.config[key]
+    if (value !== undefined) {
+      return { value, path: layer.path }
+    }
+  }
+
+  return null
+}
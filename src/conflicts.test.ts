@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'bun:test'
+import { findConflicts } from './conflicts.ts'
+import { parseFormattedRules } from './parse-formatted.ts'
+import type { ParsedRule } from './rule-schema.ts'
+
+const rule = (strength: ParsedRule['strength'], context?: string): ParsedRule => ({
+  strength,
+  action: 'use',
+  target: 'type assertions',
+  context,
+  reason: 'type safety',
+})
+
+describe('findConflicts', () => {
+  it('reports obligatory vs forbidden for the same action and target', () => {
+    const conflicts = findConflicts([
+      { path: 'a.md', rules: [rule('obligatory')] },
+      { path: 'b.md', rules: [rule('forbidden')] },
+    ])
+
+    expect(conflicts.length).toEqual(1)
+    expect(conflicts[0]?.kind).toEqual('contradiction')
+    expect(conflicts[0]?.first.path).toEqual('a.md')
+    expect(conflicts[0]?.second.path).toEqual('b.md')
+  })
+
+  it('reports permissible vs forbidden within one file', () => {
+    const conflicts = findConflicts([{ path: 'a.md', rules: [rule('forbidden'), rule('permissible')] }])
+
+    expect(conflicts.length).toEqual(1)
+    expect(conflicts[0]?.kind).toEqual('permission')
+    expect(conflicts[0]?.first.index).toEqual(0)
+    expect(conflicts[0]?.second.index).toEqual(1)
+  })
+
+  it('ignores opposing rules in different contexts', () => {
+    const conflicts = findConflicts([{
+      path: 'a.md',
+      rules: [rule('forbidden', 'anywhere'), rule('permissible', 'when inference fails')],
+    }])
+
+    expect(conflicts).toEqual([])
+  })
+
+  it('normalizes case and punctuation when matching', () => {
+    const conflicts = findConflicts([{
+      path: 'a.md',
+      rules: [rule('obligatory'), { ...rule('forbidden'), action: 'Use', target: 'Type assertions.' }],
+    }])
+
+    expect(conflicts.length).toEqual(1)
+  })
+
+  it('reports the same rule repeated across files', () => {
+    const conflicts = findConflicts([
+      { path: 'a.md', rules: [rule('forbidden')] },
+      { path: 'b.md', rules: [rule('forbidden')] },
+    ])
+
+    expect(conflicts.length).toEqual(1)
+    expect(conflicts[0]?.kind).toEqual('duplicate')
+  })
+
+  it('does not report repeats within a single file as cross-file duplicates', () => {
+    const conflicts = findConflicts([{ path: 'a.md', rules: [rule('forbidden'), rule('forbidden')] }])
+
+    expect(conflicts).toEqual([])
+  })
+
+  it('matches forbidden rules whose action carries the negation, as parsed from formatted files', () => {
+    const conflicts = findConflicts([
+      { path: 'a.md', rules: parseFormattedRules('- Avoid type assertions.\n- Never commit lockfiles.\n').rules },
+      { path: 'b.md', rules: parseFormattedRules('- Use type assertions.\n- Commit lockfiles.\n').rules },
+    ])
+
+    expect(conflicts.map((c) => [c.kind, c.first.index, c.second.index])).toEqual([
+      ['contradiction', 0, 0],
+      ['contradiction', 1, 1],
+    ])
+  })
+
+  it('reports forbidden rules worded with different negating actions as duplicates', () => {
+    const conflicts = findConflicts([
+      { path: 'a.md', rules: [{ ...rule('forbidden'), action: 'avoid' }] },
+      { path: 'b.md', rules: [{ ...rule('forbidden'), action: 'refrain from' }] },
+    ])
+
+    expect(conflicts.map((c) => c.kind)).toEqual(['duplicate'])
+  })
+
+  it('returns no conflicts for unrelated rules', () => {
+    const conflicts = findConflicts([{
+      path: 'a.md',
+      rules: [rule('obligatory'), { ...rule('forbidden'), target: 'non-null assertions' }],
+    }])
+
+    expect(conflicts).toEqual([])
+  })
+})
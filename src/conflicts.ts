@@ -0,0 +1,88 @@
+import type { FileRules, ParsedRule, Strength } from './rule-schema.ts'
+import { NEGATING_ACTION } from './rule-text.ts'
+
+export type RuleLocation = {
+  path: string
+  // zero-based position of the rule in its file's parsed rules
+  index: number
+  rule: ParsedRule
+}
+
+export type ConflictKind = 'contradiction' | 'permission' | 'duplicate'
+
+export type Conflict = {
+  kind: ConflictKind
+  first: RuleLocation
+  second: RuleLocation
+}
+
+const normalize = (text: string | undefined): string => {
+  return (text || '').toLowerCase().replace(/[^a-z0-9\s]+/g, ' ').replace(/\s+/g, ' ').trim()
+}
+
+// "avoid", "never" and "refrain from" carry the prohibition, so the act forbidden is in the target
+const isNegating = (rule: ParsedRule): boolean => {
+  return rule.strength === 'forbidden' && NEGATING_ACTION.test(rule.action.trim())
+}
+
+// "avoid type assertions" forbids what "use type assertions" asks for, and "never commit secrets" what
+// "commit secrets" does
+const forbidsAct = (negating: ParsedRule, other: ParsedRule): boolean => {
+  const target = normalize(negating.target)
+  return target === normalize(other.target) || target === normalize(other.action + ' ' + other.target)
+}
+
+// rules about the same action and target in the same context are candidates for conflicts
+const sameSubject = (a: ParsedRule, b: ParsedRule): boolean => {
+  if (normalize(a.context) !== normalize(b.context)) return false
+
+  const aNegating = isNegating(a)
+  const bNegating = isNegating(b)
+  if (aNegating && bNegating) return normalize(a.target) === normalize(b.target)
+  if (aNegating) return forbidsAct(a, b)
+  if (bNegating) return forbidsAct(b, a)
+
+  return normalize(a.action) === normalize(b.action) && normalize(a.target) === normalize(b.target)
+}
+
+const isPair = (a: Strength, b: Strength, x: Strength, y: Strength): boolean => {
+  return (a === x && b === y) || (a === y && b === x)
+}
+
+const classify = (first: RuleLocation, second: RuleLocation): ConflictKind | null => {
+  const a = first.rule.strength
+  const b = second.rule.strength
+
+  if (isPair(a, b, 'obligatory', 'forbidden')) {
+    return 'contradiction'
+  }
+
+  if (isPair(a, b, 'permissible', 'forbidden')) {
+    return 'permission'
+  }
+
+  if (a === b && first.path !== second.path) {
+    return 'duplicate'
+  }
+
+  return null
+}
+
+// O(A) vs F(A) and P(A) vs F(A) in the same context, plus the same rule repeated across files
+export const findConflicts = (files: Array<FileRules>): Array<Conflict> => {
+  const locations = files.flatMap((file) => file.rules.map((rule, index) => ({ path: file.path, index, rule })))
+  const conflicts: Array<Conflict> = []
+
+  for (const [i, first] of locations.entries()) {
+    for (const second of locations.slice(i + 1)) {
+      if (!sameSubject(first.rule, second.rule)) continue
+
+      const kind = classify(first, second)
+      if (kind) {
+        conflicts.push({ kind, first, second })
+      }
+    }
+  }
+
+  return conflicts
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'bun:test'
+import { checkConsistency } from './consistency.ts'
+import type { ParsedRule } from './rule-schema.ts'
+
+const rule = (strength: ParsedRule['strength']): ParsedRule => ({
+  strength,
+  action: 'use',
+  target: 'type assertions',
+  reason: 'maintains type safety',
+})
+
+describe('checkConsistency', () => {
+  it('returns no issues for consistent rules', () => {
+    const issues = checkConsistency([rule('forbidden'), rule('permissible'), rule('obligatory')], [
+      'Rule: Do not use type assertions.\nReason: Maintains type safety.',
+      '- May use type assertions.',
+      'Rule: Use type assertions.',
+    ])
+
+    expect(issues).toEqual([])
+  })
+
+  it('flags forbidden rules phrased as positive imperatives', () => {
+    const issues = checkConsistency([rule('forbidden')], ['Rule: Use type assertions.\nReason: Do not skip this.'])
+
+    expect(issues.length).toEqual(1)
+    expect(issues[0]?.path).toEqual(['rules', 0])
+    expect(issues[0]?.message).toContain('forbidden')
+  })
+
+  it('accepts other negations for forbidden rules', () => {
+    const issues = checkConsistency([rule('forbidden'), rule('forbidden')], [
+      '- Never use type assertions.',
+      "- Don't use type assertions.",
+    ])
+
+    expect(issues).toEqual([])
+  })
+
+  it('flags forbidden rules whose negation is not leading or is doubled', () => {
+    const issues = checkConsistency([rule('forbidden'), rule('forbidden'), rule('forbidden')], [
+      '- Use no-op handlers.',
+      '- Do not avoid type assertions.',
+      '- Always check, never skip.',
+    ])
+
+    expect(issues.map((issue) => issue.path)).toEqual([['rules', 0], ['rules', 1], ['rules', 2]])
+  })
+
+  it('accepts avoid and refrain from as the negation of a forbidden rule', () => {
+    expect(checkConsistency([rule('forbidden'), rule('forbidden')], [
+      '- Avoid type assertions.',
+      '- Refrain from using type assertions.',
+    ])).toEqual([])
+  })
+
+  it('flags permissible rules without may', () => {
+    const issues = checkConsistency([rule('obligatory'), rule('permissible')], [
+      '- Use type assertions.',
+      '- Use type assertions when necessary.',
+    ])
+
+    expect(issues.length).toEqual(1)
+    expect(issues[0]?.path).toEqual(['rules', 1])
+    expect(issues[0]?.message).toContain('"may"')
+  })
+
+  it('flags optional rules without may choose to', () => {
+    const issues = checkConsistency([rule('optional')], ['- May use type assertions.'])
+
+    expect(issues.length).toEqual(1)
+    expect(issues[0]?.message).toContain('may choose to')
+  })
+
+  it('reports a count mismatch instead of pairing rules', () => {
+    const issues = checkConsistency([rule('forbidden'), rule('obligatory')], ['- Use type assertions.'])
+
+    expect(issues.length).toEqual(1)
+    expect(issues[0]?.path).toEqual(['rules'])
+    expect(issues[0]?.message).toContain('got 1')
+  })
+})
@@ -0,0 +1,61 @@
+import type { ParsedRule, Strength } from './rule-schema.ts'
+import { extractDirective, NEGATING_ACTIONS } from './rule-text.ts'
+import type { ValidationIssue } from './validate.ts'
+
+type StrengthCheck = {
+  pattern: RegExp
+  message: string
+}
+
+// a directive opening with exactly one negation; "no" elsewhere ("use no-op handlers") and double negation
+// ("do not avoid ...") both read as positive
+const NEGATIONS = ['do not', "don't", ...NEGATING_ACTIONS].join('|')
+const LEADING_NEGATION = new RegExp('^(' + NEGATIONS + ')\\b(?!\\s+(not|no|' + NEGATIONS + ')\\b)', 'i')
+
+// expressions each strength must carry once formatted, per DEONTIC_STRENGTHS
+const STRENGTH_CHECKS: Partial<Record<Strength, StrengthCheck>> = {
+  forbidden: {
+    pattern: LEADING_NEGATION,
+    message: 'forbidden rule must open with a single negation ("do not ..."), not a positive or double negative',
+  },
+  permissible: {
+    pattern: /\bmay\b/i,
+    message: 'permissible rule must be expressed with "may"',
+  },
+  optional: {
+    pattern: /\bmay choose to\b/i,
+    message: 'optional rule must be expressed with "may choose to"',
+  },
+}
+
+// pair parsed rules with their formatted strings and report deontic mismatches
+export const checkConsistency = (parsed: Array<ParsedRule>, formatted: Array<string>): Array<ValidationIssue> => {
+  if (parsed.length !== formatted.length) {
+    return [{
+      path: ['rules'],
+      message: 'expected ' + parsed.length + ' formatted rule(s) for ' + parsed.length + ' parsed rule(s), got '
+        + formatted.length,
+    }]
+  }
+
+  const issues: Array<ValidationIssue> = []
+
+  for (let i = 0; i < parsed.length; i++) {
+    const rule = parsed[i]
+    const text = formatted[i]
+    if (!rule || text === undefined) continue
+
+    const check = STRENGTH_CHECKS[rule.strength]
+    if (!check) continue
+
+    const directive = extractDirective(text)
+    if (!check.pattern.test(directive)) {
+      issues.push({
+        path: ['rules', i],
+        message: check.message + ': "' + directive + '"',
+      })
+    }
+  }
+
+  return issues
+}
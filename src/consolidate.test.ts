@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'bun:test'
+import { countRules, planConsolidation } from './consolidate.ts'
+
+const SHARED = 'Rule: Do not use type assertions.\nReason: Type safety.'
+const OTHER_SHARED = '- Use return await when returning promises.'
+
+describe('planConsolidation', () => {
+  it('returns no groups when no rule repeats across files', () => {
+    const plan = planConsolidation([
+      { path: 'a.md', content: SHARED + '\n' },
+      { path: 'b.md', content: OTHER_SHARED + '\n' },
+    ])
+
+    expect(plan.groups).toEqual([])
+    expect(plan.files).toEqual([])
+  })
+
+  it('groups identical rules across formatting modes', () => {
+    const plan = planConsolidation([
+      { path: 'a.md', content: SHARED + '\n' },
+      { path: 'b.md', content: '- Do not use type assertions.\n' },
+    ])
+
+    expect(plan.groups.length).toEqual(1)
+    expect(plan.groups[0]?.members.map((m) => m.path)).toEqual(['a.md', 'b.md'])
+  })
+
+  it('keeps each rule in the file sharing the most repeated rules', () => {
+    const plan = planConsolidation([
+      { path: 'a.md', content: SHARED + '\n' },
+      { path: 'b.md', content: '# B\n\n' + SHARED + '\n\n' + OTHER_SHARED + '\n\n- Keep this.\n' },
+      { path: 'c.md', content: OTHER_SHARED + '\n' },
+    ])
+
+    expect(plan.groups.map((g) => g.canonical)).toEqual(['b.md', 'b.md'])
+
+    const a = plan.files.find((f) => f.path === 'a.md')
+    expect(a?.removed).toEqual([SHARED])
+    expect(a?.content).toEqual('')
+
+    const b = plan.files.find((f) => f.path === 'b.md')
+    expect(b?.kept).toEqual(2)
+    expect(b?.removed).toEqual([])
+  })
+
+  it('breaks ties by discovery order', () => {
+    const plan = planConsolidation([
+      { path: 'a.md', content: SHARED + '\n' },
+      { path: 'b.md', content: SHARED + '\n' },
+    ])
+
+    expect(plan.groups[0]?.canonical).toEqual('a.md')
+  })
+
+  it('removes copies without disturbing surrounding content', () => {
+    const plan = planConsolidation([
+      { path: 'a.md', content: SHARED + '\n' },
+      { path: 'b.md', content: '# Rules\n\n- Keep this.\n\n' + SHARED + '\n\n- Keep that.\n' },
+    ])
+
+    const b = plan.files.find((f) => f.path === 'b.md')
+    expect(b?.content).toEqual('# Rules\n\n- Keep this.\n\n- Keep that.\n')
+  })
+
+  it('removes the block itself, not the first text that contains it', () => {
+    const plan = planConsolidation([
+      { path: 'c.md', content: '- Run the tests\n' },
+      { path: 'b.md', content: '- Run the tests in watch mode before pushing\n\n- Run the tests\n' },
+    ])
+
+    const b = plan.files.find((f) => f.path === 'b.md')
+    expect(b?.content).toEqual('- Run the tests in watch mode before pushing\n')
+  })
+
+  it('lists near matches without removing them', () => {
+    const plan = planConsolidation([
+      { path: 'a.md', content: '- Use git\n' },
+      { path: 'b.md', content: '- Use git rebase\n' },
+    ])
+
+    expect(plan.groups).toEqual([])
+    expect(plan.files).toEqual([])
+    expect(plan.near.map((match) => [match.first.block, match.second.block])).toEqual([['- Use git', '- Use git rebase']])
+  })
+
+  it('keeps repeated rules in read-only files and removes only the writable copies', () => {
+    const remote = 'https://example.com/rules.md'
+    const plan = planConsolidation([
+      { path: 'a.md', content: SHARED + '\n\n' + OTHER_SHARED + '\n' },
+      { path: remote, content: SHARED + '\n', readOnly: true },
+      { path: 'https://example.com/other.md', content: OTHER_SHARED + '\n', readOnly: true },
+      { path: 'b.md', content: OTHER_SHARED + '\n' },
+    ])
+
+    expect(plan.groups.map((g) => g.canonical)).toEqual([remote, 'https://example.com/other.md'])
+    expect(plan.files.map((f) => [f.path, f.removed.length, f.readOnly === true])).toEqual([
+      ['a.md', 2, false],
+      [remote, 0, true],
+      ['https://example.com/other.md', 0, true],
+      ['b.md', 1, false],
+    ])
+  })
+
+  it('plans nothing for a rule repeated only in read-only files', () => {
+    const plan = planConsolidation([
+      { path: 'https://example.com/a.md', content: SHARED + '\n', readOnly: true },
+      { path: 'https://example.com/b.md', content: SHARED + '\n', readOnly: true },
+    ])
+
+    expect(plan.groups).toEqual([])
+    expect(plan.files).toEqual([])
+  })
+
+  it('never groups headings', () => {
+    const plan = planConsolidation([
+      { path: 'a.md', content: '## Overview\n\n- A.\n' },
+      { path: 'b.md', content: '## Overview\n\n- B.\n' },
+    ])
+
+    expect(plan.groups).toEqual([])
+  })
+
+  it('skips files that failed to read', () => {
+    const plan = planConsolidation([
+      { path: 'a.md', content: SHARED + '\n' },
+      { path: 'b.md', content: '', error: 'ENOENT' },
+    ])
+
+    expect(plan.groups).toEqual([])
+  })
+})
+
+describe('countRules', () => {
+  it('counts rule blocks and leaves out headings', () => {
+    expect(countRules('# Title\n\n' + SHARED + '\n\n' + OTHER_SHARED + '\n')).toEqual(2)
+  })
+})
@@ -0,0 +1,184 @@
+import type { InstructionFile } from './discover.ts'
+import { matchScore, NEAR_DUPLICATE_THRESHOLD } from './duplicates.ts'
+import { normalizeRule, splitRuleBlockRanges, splitRuleBlocks } from './rule-text.ts'
+
+// headings, code fences, tables and horizontal rules are structure and are never consolidated
+const STRUCTURAL_BLOCK = /^(#|```|~~~|\||---)/
+
+// rule blocks in the content, leaving out headings and other structure
+export const countRules = (content: string): number => {
+  return splitRuleBlocks(content).filter((block) => !STRUCTURAL_BLOCK.test(block)).length
+}
+
+type Member = {
+  path: string
+  block: string
+  // line range of the block in the file, so removing it cannot touch a longer rule that contains the same text
+  start: number
+  end: number
+}
+
+export type ConsolidationGroup = {
+  rule: string
+  canonical: string
+  members: Array<Member>
+}
+
+export type ConsolidationFile = {
+  path: string
+  // groups whose canonical home is this file
+  kept: number
+  removed: Array<string>
+  original: string
+  content: string
+  // copies in read-only files are left in place, so such a file is never written
+  readOnly?: boolean
+}
+
+// rules in different files that resemble each other without being the same rule; listed, never removed
+export type NearMatch = {
+  similarity: number
+  first: Member
+  second: Member
+}
+
+export type ConsolidationPlan = {
+  groups: Array<ConsolidationGroup>
+  near: Array<NearMatch>
+  files: Array<ConsolidationFile>
+}
+
+type Group = {
+  normalized: string
+  members: Array<Member>
+}
+
+// rules grouped by their normalized text; only exact matches share a group, since "use git" and "use git rebase"
+// are different rules however many words they share
+const groupBlocks = (files: Array<InstructionFile>): Array<Group> => {
+  const groups: Array<Group> = []
+
+  for (const file of files) {
+    if (file.error) continue
+
+    for (const block of splitRuleBlockRanges(file.content)) {
+      if (STRUCTURAL_BLOCK.test(block.text)) continue
+
+      const normalized = normalizeRule(block.text)
+      if (normalized.length === 0) continue
+
+      const member = { path: file.path, block: block.text, start: block.start, end: block.end }
+      const group = groups.find((g) => g.normalized === normalized)
+      if (group) {
+        group.members.push(member)
+      } else {
+        groups.push({ normalized, members: [member] })
+      }
+    }
+  }
+
+  return groups
+}
+
+const spansFiles = (group: Group): boolean => {
+  return new Set(group.members.map((m) => m.path)).size > 1
+}
+
+// pairs of groups from different files scoring at or above NEAR_DUPLICATE_THRESHOLD, for the user to review
+const findNearMatches = (groups: Array<Group>): Array<NearMatch> => {
+  const matches: Array<NearMatch> = []
+
+  for (const [index, group] of groups.entries()) {
+    for (const other of groups.slice(index + 1)) {
+      const score = matchScore(group.normalized, other.normalized)
+      if (score < NEAR_DUPLICATE_THRESHOLD) continue
+
+      const first = group.members[0]
+      const second = other.members.find((m) => m.path !== first?.path)
+      if (first && second) {
+        matches.push({ similarity: score, first, second })
+      }
+    }
+  }
+
+  return matches
+}
+
+type Ranking = {
+  shared: Map<string, number>
+  order: Array<string>
+  readOnly: Set<string>
+}
+
+// the canonical home is a read-only file when the rule is in one, since its copy cannot be removed; otherwise the
+// file sharing the most repeated rules, ties going to the first discovered file
+const chooseCanonical = (group: Group, ranking: Ranking): string => {
+  const paths = [...new Set(group.members.map((m) => m.path))]
+  const { shared, order, readOnly } = ranking
+
+  return paths.sort((a, b) => {
+    const byReadOnly = Number(readOnly.has(b)) - Number(readOnly.has(a))
+    if (byReadOnly !== 0) return byReadOnly
+
+    const byShared = (shared.get(b) || 0) - (shared.get(a) || 0)
+    return byShared !== 0 ? byShared : order.indexOf(a) - order.indexOf(b)
+  })[0] || ''
+}
+
+// drop the lines of the removed blocks and collapse the blank lines they leave behind
+const removeBlocks = (content: string, members: Array<Member>): string => {
+  const result = content
+    .split('\n')
+    .filter((_, index) => !members.some((member) => index >= member.start && index < member.end))
+    .join('\n')
+
+  const collapsed = result.replace(/\n{3,}/g, '\n\n').trim()
+  return collapsed.length > 0 ? collapsed + '\n' : ''
+}
+
+// group rules repeated across files and plan removing every copy outside its canonical home
+export const planConsolidation = (files: Array<InstructionFile>): ConsolidationPlan => {
+  const all = groupBlocks(files)
+  const groups = all.filter(spansFiles)
+  const order = files.map((file) => file.path)
+  const readOnly = new Set(files.filter((file) => file.readOnly).map((file) => file.path))
+  const shared = new Map<string, number>()
+
+  for (const group of groups) {
+    for (const path of new Set(group.members.map((m) => m.path))) {
+      shared.set(path, (shared.get(path) || 0) + 1)
+    }
+  }
+
+  // a rule repeated only in read-only files has no copy that can be removed
+  const planned = groups
+    .map((group) => {
+      const canonical = chooseCanonical(group, { shared, order, readOnly })
+      const first = group.members.find((m) => m.path === canonical)
+      return { rule: first ? first.block : '', canonical, members: group.members }
+    })
+    .filter((group) => group.members.some((m) => m.path !== group.canonical && !readOnly.has(m.path)))
+
+  const consolidated: Array<ConsolidationFile> = []
+
+  for (const file of files) {
+    const kept = planned.filter((group) => group.canonical === file.path).length
+    const removed = planned.flatMap((group) => {
+      if (group.canonical === file.path || file.readOnly) return []
+      return group.members.filter((m) => m.path === file.path)
+    })
+
+    if (kept === 0 && removed.length === 0) continue
+
+    consolidated.push({
+      path: file.path,
+      kept,
+      removed: removed.map((m) => m.block),
+      original: file.content,
+      content: removed.length > 0 ? removeBlocks(file.content, removed) : file.content,
+      ...(file.readOnly ? { readOnly: true } : {}),
+    })
+  }
+
+  return { groups: planned, near: findNearMatches(all), files: consolidated }
+}
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it } from 'bun:test'
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { dirname, join } from 'node:path'
+import { findConventionFiles } from './conventions.ts'
+
+describe('findConventionFiles', () => {
+  let root = ''
+
+  const setup = async (files: Record<string, string>) => {
+    root = await mkdtemp(join(tmpdir(), 'sat-conventions-'))
+    for (const [path, content] of Object.entries(files)) {
+      await mkdir(dirname(join(root, path)), { recursive: true })
+      await writeFile(join(root, path), content, 'utf-8')
+    }
+  }
+
+  afterEach(async () => {
+    if (root) {
+      await rm(root, { recursive: true, force: true })
+      root = ''
+    }
+  })
+
+  it('finds every conventional file in the directory', async () => {
+    await setup({
+      'AGENTS.md': 'agents',
+      'CLAUDE.md': 'claude',
+      '.cursorrules': 'cursor',
+      '.github/copilot-instructions.md': 'copilot',
+      'README.md': 'not an instruction file',
+    })
+
+    const matches = await findConventionFiles(root)
+
+    expect(matches).toEqual([
+      { path: join(root, 'AGENTS.md'), convention: 'AGENTS.md' },
+      { path: join(root, 'CLAUDE.md'), convention: 'CLAUDE.md' },
+      { path: join(root, '.cursorrules'), convention: '.cursorrules' },
+      { path: join(root, '.github/copilot-instructions.md'), convention: '.github/copilot-instructions.md' },
+    ])
+  })
+
+  it('walks up to the git root and down into subdirectories', async () => {
+    await setup({
+      '.git/HEAD': 'ref: refs/heads/main',
+      'AGENTS.md': 'root',
+      'packages/AGENTS.md': 'packages',
+      'packages/app/CLAUDE.md': 'app',
+      'packages/app/src/AGENTS.md': 'src',
+      'packages/other/AGENTS.md': 'sibling',
+    })
+
+    const matches = await findConventionFiles(join(root, 'packages/app'))
+
+    expect(matches.map((match) => match.path)).toEqual([
+      join(root, 'AGENTS.md'),
+      join(root, 'packages/AGENTS.md'),
+      join(root, 'packages/app/CLAUDE.md'),
+      join(root, 'packages/app/src/AGENTS.md'),
+    ])
+  })
+
+  it('stays in the directory outside a git repository', async () => {
+    await setup({ 'AGENTS.md': 'parent', 'project/CLAUDE.md': 'project' })
+
+    const matches = await findConventionFiles(join(root, 'project'))
+
+    expect(matches).toEqual([{ path: join(root, 'project/CLAUDE.md'), convention: 'CLAUDE.md' }])
+  })
+
+  it('skips node_modules', async () => {
+    await setup({ 'node_modules/pkg/AGENTS.md': 'dependency', 'src/AGENTS.md': 'src' })
+
+    const matches = await findConventionFiles(root)
+
+    expect(matches.map((match) => match.path)).toEqual([join(root, 'src/AGENTS.md')])
+  })
+})
@@ -0,0 +1,93 @@
+import { glob, stat } from 'node:fs/promises'
+import { dirname, join, resolve, sep } from 'node:path'
+import { safeAsync } from './safe.ts'
+
+// instruction files other agents read by convention, without any config listing them
+export const CONVENTIONS = ['AGENTS.md', 'CLAUDE.md', '.cursorrules', '.github/copilot-instructions.md'] as const
+
+export type Convention = typeof CONVENTIONS[number]
+
+// per-directory files that apply to the subtree they sit in
+const NESTED_CONVENTIONS: Array<Convention> = ['AGENTS.md']
+
+// dependency and VCS directories never hold the project's own instructions
+const SKIPPED_DIRECTORIES = ['node_modules', '.git']
+
+export type ConventionMatch = {
+  path: string
+  convention: Convention
+}
+
+const exists = async (path: string): Promise<boolean> => {
+  const result = await safeAsync(() => stat(path))
+  return result.error === null
+}
+
+const isFile = async (path: string): Promise<boolean> => {
+  const result = await safeAsync(() => stat(path))
+  return result.error === null && result.data.isFile()
+}
+
+// directory and its parents up to the git root, outermost first; only directory itself outside a repository
+const ancestors = async (directory: string): Promise<Array<string>> => {
+  const chain: Array<string> = []
+  let current = resolve(directory)
+
+  while (true) {
+    chain.push(current)
+
+    if (await exists(join(current, '.git'))) {
+      return chain.reverse()
+    }
+
+    const parent = dirname(current)
+    if (parent === current) {
+      return [resolve(directory)]
+    }
+
+    current = parent
+  }
+}
+
+const isSkipped = (path: string): boolean => {
+  return path.split(sep).some((segment) => SKIPPED_DIRECTORIES.includes(segment))
+}
+
+// conventional files from the git root down to directory, then nested ones below directory
+export const findConventionFiles = async (directory: string): Promise<Array<ConventionMatch>> => {
+  const seen = new Set<string>()
+  const matches: Array<ConventionMatch> = []
+
+  const add = (path: string, convention: Convention) => {
+    if (!seen.has(path)) {
+      seen.add(path)
+      matches.push({ path, convention })
+    }
+  }
+
+  for (const ancestor of await ancestors(directory)) {
+    for (const convention of CONVENTIONS) {
+      const path = join(ancestor, convention)
+      if (await isFile(path)) {
+        add(path, convention)
+      }
+    }
+  }
+
+  for (const convention of NESTED_CONVENTIONS) {
+    const found: Array<string> = []
+    // excluding during the walk keeps glob from descending into dependencies at all
+    for await (const path of glob('**/' + convention, { cwd: directory, exclude: isSkipped })) {
+      found.push(resolve(directory, path))
+    }
+
+    // glob order depends on the file system
+    for (const path of found.sort()) {
+      if (await isFile(path)) {
+        add(path, convention)
+      }
+    }
+  }
+
+  return matches
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'bun:test'
+import { planConversion } from './convert.ts'
+
+const VERBOSE = 'Rule: Do not use type assertions.\nReason: Maintains type safety.\n\nRule: Use tabs.\nReason: Team habit.\n'
+const CONCISE = '- Do not use type assertions.\n- Use tabs.\n'
+
+describe('planConversion', () => {
+  it('drops reasons when converting verbose to concise', () => {
+    const plan = planConversion(VERBOSE, 'concise')
+
+    expect(plan).toEqual({
+      status: 'ready',
+      from: 'verbose',
+      rules: ['- Do not use type assertions.', '- Use tabs.'],
+    })
+  })
+
+  it('keeps non-obvious reasons when converting verbose to balanced', () => {
+    const plan = planConversion(VERBOSE, 'balanced')
+
+    expect(plan.status).toEqual('ready')
+    if (plan.status === 'ready') {
+      expect(plan.rules[0]).toEqual('Rule: Do not use type assertions.\nReason: Maintains type safety.')
+    }
+  })
+
+  it('flags rules missing reasons when converting concise to verbose', () => {
+    const plan = planConversion(CONCISE, 'verbose')
+
+    expect(plan.status).toEqual('missingReasons')
+    if (plan.status === 'missingReasons') {
+      expect(plan.missing).toEqual([0, 1])
+      expect(plan.parsed[0]?.strength).toEqual('forbidden')
+    }
+  })
+
+  it('converts concise to balanced without reasons', () => {
+    const plan = planConversion(CONCISE, 'balanced')
+
+    expect(plan.status).toEqual('ready')
+    if (plan.status === 'ready') {
+      expect(plan.rules).toEqual(['Rule: Do not use type assertions.', 'Rule: Use tabs.'])
+    }
+  })
+
+  it('refuses files with headings or prose', () => {
+    const plan = planConversion('# Title\n\n- Use tabs.\n', 'verbose')
+
+    expect(plan).toEqual({ status: 'hasOtherContent', blocks: ['# Title'] })
+  })
+
+  it('refuses files without formatted rules', () => {
+    expect(planConversion('Use tabs always.\n', 'concise').status).toEqual('notFormatted')
+  })
+})
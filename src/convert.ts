@@ -0,0 +1,53 @@
+import { formatRules } from './format-rules.ts'
+import { parseFormattedRules } from './parse-formatted.ts'
+import type { Mode, ParsedRule } from './rule-schema.ts'
+
+type ConversionReady = {
+  status: 'ready'
+  from: Mode | 'mixed'
+  rules: Array<string>
+}
+
+type ConversionMissingReasons = {
+  status: 'missingReasons'
+  parsed: Array<ParsedRule>
+  // zero-based positions of rules without a reason
+  missing: Array<number>
+}
+
+type ConversionSkipped = {
+  status: 'notFormatted' | 'hasOtherContent'
+  blocks: Array<string>
+}
+
+export type ConversionPlan = ConversionReady | ConversionMissingReasons | ConversionSkipped
+
+// table status for files that are not converted
+export const CONVERSION_LABELS: Record<Exclude<ConversionPlan['status'], 'ready'>, string> = {
+  missingReasons: 'Needs reasons',
+  notFormatted: 'Not formatted',
+  hasOtherContent: 'Has other content',
+}
+
+// transform formatted rule content into another mode, flagging what cannot be converted locally
+export const planConversion = (content: string, mode: Mode): ConversionPlan => {
+  const parsed = parseFormattedRules(content)
+
+  if (parsed.mode === null) {
+    return { status: 'notFormatted', blocks: parsed.unparsed }
+  }
+
+  // converting would drop headings and prose, which only the full pipeline can restructure
+  if (parsed.unparsed.length > 0) {
+    return { status: 'hasOtherContent', blocks: parsed.unparsed }
+  }
+
+  if (mode === 'verbose') {
+    const missing = parsed.rules.flatMap((rule, index) => rule.reason.length === 0 ? [index] : [])
+    if (missing.length > 0) {
+      return { status: 'missingReasons', parsed: parsed.rules, missing }
+    }
+  }
+
+  return { status: 'ready', from: parsed.mode, rules: formatRules(parsed.rules, mode) }
+}
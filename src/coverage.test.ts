@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'bun:test'
+import { readFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { checkCoverage, findDirectiveSentences } from './coverage.ts'
+import type { ParsedRule } from './rule-schema.ts'
+
+const fixture = async (name: string): Promise<string> => {
+  return await readFile(join(import.meta.dir, '..', 'fixtures', name), 'utf-8')
+}
+
+const rule = (strength: ParsedRule['strength'], action: string, target: string): ParsedRule => ({
+  strength,
+  action,
+  target,
+  reason: '',
+})
+
+describe('findDirectiveSentences', () => {
+  it('finds sentences with deontic signal words and their starting line', () => {
+    const content = [
+      '# Rules',
+      '',
+      'The server runs on Node.js. Never add limit() to inserts.',
+      'It may cache results when',
+      'the query is expensive.',
+    ].join('\n')
+
+    expect(findDirectiveSentences(content)).toEqual([
+      { line: 3, text: 'Never add limit() to inserts.' },
+      { line: 4, text: 'It may cache results when the query is expensive.' },
+    ])
+  })
+
+  it('skips headings and fenced code', () => {
+    const content = ['## Never heading', '', '```', 'never in code', '```', '', 'Always test.'].join('\n')
+
+    expect(findDirectiveSentences(content)).toEqual([{ line: 7, text: 'Always test.' }])
+  })
+
+  it('treats each list item as its own paragraph', () => {
+    const content = ['- Always lint', '- Never skip review'].join('\n')
+
+    expect(findDirectiveSentences(content).map((s) => s.line)).toEqual([1, 2])
+  })
+
+  it('ignores signal words inside other words', () => {
+    expect(findDirectiveSentences('Know the notation.')).toEqual([])
+  })
+})
+
+describe('checkCoverage', () => {
+  it('reports directive sentences no rule maps to', async () => {
+    const content = await fixture('server.md')
+
+    const coverage = checkCoverage([{ path: 'server.md', content }], [
+      rule('forbidden', 'add', 'limit() to insert, delete, or returning operations'),
+      rule('forbidden', 'use', 'arbitrary varchar lengths'),
+      rule('obligatory', 'use', 'the non-nullable getX variant'),
+    ])
+
+    expect(coverage[0]?.directives).toEqual(4)
+    expect(coverage[0]?.uncovered.map((s) => s.line)).toEqual([52])
+  })
+
+  it('counts a sentence quoted by a rule source as covered', () => {
+    const content = 'Never combine getXNullable with a manual null check.'
+
+    const coverage = checkCoverage([{ path: 'a.md', content }], [{
+      ...rule('forbidden', 'duplicate', 'existence checks'),
+      source: { path: 'a.md', startLine: 1, endLine: 1, quote: content },
+    }])
+
+    expect(coverage[0]?.uncovered).toEqual([])
+  })
+
+  it('skips files that could not be read', () => {
+    expect(checkCoverage([{ path: 'a.md', content: '', error: 'ENOENT' }], [])).toEqual([])
+  })
+})
@@ -0,0 +1,137 @@
+import { NEGATION_SIGNALS } from './descriptions.ts'
+import type { InstructionFile } from './discover.ts'
+import { isGrounded, textStems } from './fidelity.ts'
+import type { ParsedRule } from './rule-schema.ts'
+
+export type DirectiveSentence = {
+  // 1-based line the sentence starts on
+  line: number
+  text: string
+}
+
+const escape = (text: string): string => {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// every quoted signal word in NEGATION_SIGNALS, so the two lists cannot drift apart
+const DIRECTIVE_PATTERN = new RegExp(
+  '\\b(' + [...NEGATION_SIGNALS.matchAll(/"([^"]+)"/g)].map((match) => escape(match[1] || '')).join('|') + ')\\b',
+  'i',
+)
+
+const FENCE = /^(```|~~~)/
+const HEADING = /^#{1,6}\s/
+const LIST_ITEM = /^\s*([-*+]|\d+\.)\s+/
+
+// a sentence ends at . ! or ? followed by whitespace and a capital, quote, backtick or opening bracket
+const SENTENCE_END = /[.!?](?=\s+[A-Z`"'(])/g
+
+type Paragraph = {
+  line: number
+  lines: Array<string>
+}
+
+// group prose lines into paragraphs, skipping headings and fenced code; each list item starts its own paragraph
+const paragraphs = (content: string): Array<Paragraph> => {
+  const result: Array<Paragraph> = []
+  let current: Paragraph | null = null
+  let inFence = false
+
+  content.split('\n').forEach((raw, index) => {
+    const line = raw.trim()
+
+    if (FENCE.test(line)) {
+      inFence = !inFence
+      current = null
+      return
+    }
+
+    if (inFence || line.length === 0 || HEADING.test(line)) {
+      current = null
+      return
+    }
+
+    if (!current || LIST_ITEM.test(raw)) {
+      current = { line: index + 1, lines: [] }
+      result.push(current)
+    }
+
+    current.lines.push(line.replace(LIST_ITEM, ''))
+  })
+
+  return result
+}
+
+const splitParagraph = (paragraph: Paragraph): Array<DirectiveSentence> => {
+  // offsets where each source line starts in the joined text, to map sentences back to lines
+  const starts: Array<number> = []
+  let offset = 0
+  for (const line of paragraph.lines) {
+    starts.push(offset)
+    offset += line.length + 1
+  }
+
+  const text = paragraph.lines.join(' ')
+  const sentences: Array<DirectiveSentence> = []
+  let from = 0
+
+  const push = (to: number) => {
+    const sentence = text.slice(from, to).trim()
+    if (sentence.length > 0) {
+      const leading = text.slice(from).length - text.slice(from).trimStart().length
+      const index = starts.filter((start) => start <= from + leading).length - 1
+      sentences.push({ line: paragraph.line + Math.max(index, 0), text: sentence })
+    }
+    from = to
+  }
+
+  for (const match of text.matchAll(SENTENCE_END)) {
+    push(match.index + 1)
+  }
+  push(text.length)
+
+  return sentences
+}
+
+// sentences of the content containing a deontic signal word such as "never", "must" or "may"
+export const findDirectiveSentences = (content: string): Array<DirectiveSentence> => {
+  return paragraphs(content).flatMap(splitParagraph).filter((sentence) => DIRECTIVE_PATTERN.test(sentence.text))
+}
+
+const collapse = (text: string): string => {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+// a sentence is covered by a rule quoting it, or by a rule whose key terms mostly appear in it
+const isCovered = (sentence: DirectiveSentence, rules: Array<ParsedRule>): boolean => {
+  const text = collapse(sentence.text)
+  const stems = textStems([sentence.text])
+
+  return rules.some((rule) => {
+    if (rule.source) {
+      const quote = collapse(rule.source.quote)
+      if (quote.length > 0 && (quote.includes(text) || text.includes(quote))) return true
+    }
+
+    return isGrounded(rule, stems)
+  })
+}
+
+export type FileCoverage = {
+  path: string
+  directives: number
+  uncovered: Array<DirectiveSentence>
+}
+
+// directive-bearing sentences of each file that no parsed rule maps to
+export const checkCoverage = (files: Array<InstructionFile>, rules: Array<ParsedRule>): Array<FileCoverage> => {
+  return files.filter((file) => !file.error).map((file) => {
+    const directives = findDirectiveSentences(file.content)
+
+    return {
+      path: file.path,
+      directives: directives.length,
+      uncovered: directives.filter((sentence) => !isCovered(sentence, rules)),
+    }
+  })
+}
@@ -1,17 +1,24 @@
 import { promptSchemaExample } from './prompt-schema.ts'
-import { formatSchemaExample, parseSchemaExample } from './rule-schema.ts'
+import {
+  checkSchemaExample,
+  formatSchemaExample,
+  parseSchemaExample,
+  perFileFormatSchemaExample,
+  perFileSectionedFormatSchemaExample,
+  sectionedFormatSchemaExample,
+} from './rule-schema.ts'
 
 // Deontic logic: the 7 modal strengths and their natural language expression.
 // Defined once, composed into tool descriptions that need them.
 
 export const DEONTIC_STRENGTHS = [
   'obligatory -> positive imperative: "use consistent whitespace"',
-  'forbidden -> negate with "do not": "do not use non-null assertions"',
+  'forbidden -> negate with "do not": "do not use non-null assertions"; "avoid", "never", "refrain from" stand alone',
   'permissible -> prefix with "may": "may use type assertions when necessary"',
   'optional -> prefix with "may choose to": "may choose to add commit body"',
   'supererogatory -> prefix with "ideally": "ideally provide comprehensive documentation"',
   'indifferent -> prefix with "either way is fine": "either way is fine for naming style"',
-  'omissible -> prefix with "may omit": "may omit post-task explanations"',
+  'omissible -> prefix with "may omit": "may omit post-task explanations"; other actions: "may choose not to add ..."',
 ].join('\n')
 
 // Speech act detection: how to map natural language directive signals to deontic strength.
@@ -44,6 +51,8 @@ export const MODE_FORMATS = [
 export const PARSE_RULES_PARAM = [
   'Structured JSON with "rules" array. You decompose the user input into rule objects, the tool validates them.',
   'Schema: ' + parseSchemaExample,
+  'To give each file or section its own rules in rewrite-rules, group the same rule objects instead as',
+  '{"files": [{"path", "rules"}]}, {"sections": [{"heading", "rules"}]}, or {"files": [{"path", "sections"}]}.',
 ].join('\n')
 
 export const FORMAT_RULES_PARAM = [
@@ -51,8 +60,42 @@ export const FORMAT_RULES_PARAM = [
   'Schema: ' + formatSchemaExample,
 ].join('\n')
 
+export const PARSED_HANDLE_PARAM = [
+  PARSE_RULES_PARAM,
+  'Or the handle parse-rules returned, such as "parse-1", instead of repeating the JSON.',
+].join('\n')
+
+export const FORMATTED_HANDLE_PARAM = [
+  FORMAT_RULES_PARAM,
+  'Or the handle format-rules returned, such as "format-2", instead of repeating the JSON.',
+].join('\n')
+
+export const CHECK_RULES_PARAM = [
+  'JSON with "files" array. Each entry holds a discovered file path and the parsed rules of that file.',
+  'Schema: ' + checkSchemaExample,
+  'Or the handle parse-rules returned for rules grouped by file, such as "parse-1", instead of repeating the JSON.',
+].join('\n')
+
+export const REWRITE_RULES_PARAM = [
+  FORMAT_RULES_PARAM,
+  'The same rules are written to every file. To give each discovered file its own rules, pass a "files" array instead.',
+  'Schema: ' + perFileFormatSchemaExample,
+  'Or the handle format-rules returned, such as "format-2": flat rules are written to every file, and rules it kept',
+  'grouped by file or section go to their own file or section.',
+].join('\n')
+
+export const SECTIONS_PARAM = [
+  'Rewrite section by section, keeping headings, fenced code blocks, and front matter intact. Default: false.',
+  'When true, the rules parameter maps section headings to their formatted rules instead of one flat array.',
+  'Schema: ' + sectionedFormatSchemaExample,
+  'Per-file schema: ' + perFileSectionedFormatSchemaExample,
+].join('\n')
+
 export const MODE_PARAM = 'verbose | balanced | concise. Default: balanced.'
 
+export const OUTPUT_PARAM = 'table | markdown | json. How results are posted to chat: a plain-text table, a markdown '
+  + 'table, or the raw results and summary as JSON. Default: markdown.'
+
 export const PARSE_PROMPT_PARAM = [
   'Structured JSON with "tasks" array. You decompose the user input, the tool validates it.',
   'Schema: ' + promptSchemaExample,
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'bun:test'
+import { unifiedDiff } from './diff.ts'
+
+const numbered = (count: number) => Array.from({ length: count }, (_, i) => 'line ' + (i + 1)).join('\n') + '\n'
+
+describe('unifiedDiff', () => {
+  it('returns empty string when contents match', () => {
+    expect(unifiedDiff({ path: 'a.md', original: 'same\n', updated: 'same\n' })).toEqual('')
+  })
+
+  it('renders file headers and a single hunk', () => {
+    const diff = unifiedDiff({ path: 'a.md', original: 'one\ntwo\nthree\n', updated: 'one\n2\nthree\n' })
+
+    expect(diff).toEqual([
+      '--- a/a.md',
+      '+++ b/a.md',
+      '@@ -1,3 +1,3 @@',
+      ' one',
+      '-two',
+      '+2',
+      ' three',
+    ].join('\n'))
+  })
+
+  it('renders additions to an empty file', () => {
+    const diff = unifiedDiff({ path: 'a.md', original: '', updated: 'a\nb\n' })
+
+    expect(diff).toContain('@@ -0,0 +1,2 @@')
+    expect(diff).toContain('+a\n+b')
+  })
+
+  it('renders removal of every line', () => {
+    const diff = unifiedDiff({ path: 'a.md', original: 'a\n', updated: '' })
+
+    expect(diff).toContain('@@ -1 +0,0 @@')
+    expect(diff).toContain('-a')
+  })
+
+  it('limits context to three lines around a change', () => {
+    const original = numbered(20)
+    const updated = original.replace('line 10\n', 'line ten\n')
+    const diff = unifiedDiff({ path: 'a.md', original, updated })
+
+    expect(diff).toContain('@@ -7,7 +7,7 @@')
+    expect(diff).toContain(' line 7')
+    expect(diff).toContain(' line 13')
+    expect(diff).not.toContain('line 6')
+    expect(diff).not.toContain('line 14')
+  })
+
+  it('splits distant changes into separate hunks', () => {
+    const original = numbered(30)
+    const updated = original.replace('line 2\n', 'line two\n').replace('line 25\n', 'line twenty-five\n')
+    const diff = unifiedDiff({ path: 'a.md', original, updated })
+
+    expect(diff.match(/^@@/gm)?.length).toEqual(2)
+  })
+
+  it('merges nearby changes into one hunk', () => {
+    const original = numbered(30)
+    const updated = original.replace('line 2\n', 'line two\n').replace('line 8\n', 'line eight\n')
+    const diff = unifiedDiff({ path: 'a.md', original, updated })
+
+    expect(diff.match(/^@@/gm)?.length).toEqual(1)
+  })
+})
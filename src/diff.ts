@@ -0,0 +1,166 @@
+type DiffOp = {
+  type: 'equal' | 'delete' | 'insert'
+  line: string
+}
+
+type Hunk = {
+  oldStart: number
+  newStart: number
+  ops: Array<DiffOp>
+}
+
+const CONTEXT_LINES = 3
+
+const toLines = (content: string): Array<string> => {
+  if (content.length === 0) {
+    return []
+  }
+
+  const lines = content.split('\n')
+  if (lines[lines.length - 1] === '') {
+    lines.pop()
+  }
+
+  return lines
+}
+
+// line-level diff via longest common subsequence, instruction files are small enough for the O(n*m) table
+const diffLines = (before: Array<string>, after: Array<string>): Array<DiffOp> => {
+  const rows = before.length + 1
+  const cols = after.length + 1
+  const lengths = new Array<number>(rows * cols).fill(0)
+
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      const index = i * cols + j
+      if (before[i] === after[j]) {
+        lengths[index] = (lengths[index + cols + 1] || 0) + 1
+      } else {
+        lengths[index] = Math.max(lengths[index + cols] || 0, lengths[index + 1] || 0)
+      }
+    }
+  }
+
+  const ops: Array<DiffOp> = []
+  let i = 0
+  let j = 0
+
+  while (i < before.length || j < after.length) {
+    const oldLine = before[i]
+    const newLine = after[j]
+
+    if (oldLine !== undefined && newLine !== undefined && oldLine === newLine) {
+      ops.push({ type: 'equal', line: oldLine })
+      i++
+      j++
+      continue
+    }
+
+    const skipOld = lengths[(i + 1) * cols + j] || 0
+    const skipNew = lengths[i * cols + j + 1] || 0
+
+    if (newLine === undefined || (oldLine !== undefined && skipOld >= skipNew)) {
+      ops.push({ type: 'delete', line: oldLine || '' })
+      i++
+    } else {
+      ops.push({ type: 'insert', line: newLine })
+      j++
+    }
+  }
+
+  return ops
+}
+
+// group changed lines into hunks, keeping CONTEXT_LINES of unchanged lines around each change
+const buildHunks = (ops: Array<DiffOp>): Array<Hunk> => {
+  const hunks: Array<Hunk> = []
+  let current: Hunk | null = null
+  let trailing = 0
+  let oldLine = 1
+  let newLine = 1
+
+  for (let k = 0; k < ops.length; k++) {
+    const op = ops[k]
+    if (!op) continue
+
+    if (op.type !== 'equal') {
+      if (!current) {
+        const lead = ops.slice(Math.max(0, k - CONTEXT_LINES), k)
+        current = {
+          oldStart: oldLine - lead.length,
+          newStart: newLine - lead.length,
+          ops: [...lead],
+        }
+        hunks.push(current)
+      }
+
+      current.ops.push(op)
+      trailing = 0
+    } else if (current) {
+      const nextChange = ops.slice(k + 1, k + 1 + CONTEXT_LINES * 2 - trailing).some((o) => o.type !== 'equal')
+
+      if (trailing < CONTEXT_LINES || nextChange) {
+        current.ops.push(op)
+        trailing++
+      } else {
+        current = null
+        trailing = 0
+      }
+    }
+
+    if (op.type !== 'insert') oldLine++
+    if (op.type !== 'delete') newLine++
+  }
+
+  return hunks
+}
+
+const formatRange = (start: number, count: number): string => {
+  if (count === 0) {
+    return String(start - 1) + ',0'
+  }
+
+  return count === 1 ? String(start) : start + ',' + count
+}
+
+const formatHunk = (hunk: Hunk): string => {
+  const oldCount = hunk.ops.filter((op) => op.type !== 'insert').length
+  const newCount = hunk.ops.filter((op) => op.type !== 'delete').length
+  const header = '@@ -' + formatRange(hunk.oldStart, oldCount) + ' +' + formatRange(hunk.newStart, newCount) + ' @@'
+
+  const lines = hunk.ops.map((op) => {
+    if (op.type === 'delete') return '-' + op.line
+    if (op.type === 'insert') return '+' + op.line
+    return ' ' + op.line
+  })
+
+  return [header, ...lines].join('\n')
+}
+
+type UnifiedDiffOptions = {
+  path: string
+  original: string
+  updated: string
+}
+
+// render a unified diff between two versions of a file, empty when nothing changed
+export const unifiedDiff = (options: UnifiedDiffOptions): string => {
+  const ops = diffLines(toLines(options.original), toLines(options.updated))
+  const hunks = buildHunks(ops)
+
+  if (hunks.length === 0) {
+    return ''
+  }
+
+  return ['--- a/' + options.path, '+++ b/' + options.path, ...hunks.map(formatHunk)].join('\n')
+}
+
+// render each preview diff as a fenced block below its file heading
+export const formatDiffs = (previews: Array<{ path: string; diff: string }>): string => {
+  return previews
+    .map((preview) => {
+      const body = preview.diff.length > 0 ? '```diff\n' + preview.diff + '\n```' : '(no changes)'
+      return '## ' + preview.path + '\n\n' + body
+    })
+    .join('\n\n')
+}
@@ -162,6 +162,178 @@ describe('discover', () => {
   })
 })
 
+describe('discover config layers', () => {
+  afterEach(async () => {
+    if (tmpDir) {
+      await rm(tmpDir, { recursive: true, force: true })
+      tmpDir = ''
+    }
+  })
+
+  // a project directory and an explicit global config directory inside one temp dir
+  const makeLayers = async () => {
+    const root = await makeTmpDir()
+    const project = join(root, 'project')
+    const globalDirectory = join(root, 'global')
+    await mkdir(project, { recursive: true })
+    await mkdir(globalDirectory, { recursive: true })
+    return { project, globalDirectory }
+  }
+
+  it('reads opencode.jsonc with comments and trailing commas', async () => {
+    const { project, globalDirectory } = await makeLayers()
+    await writeFile(
+      join(project, 'opencode.jsonc'),
+      '{\n  // project rules\n  "instructions": ["docs/*.md",],\n}\n',
+      'utf-8',
+    )
+    await writeInstruction(project, 'docs/rules.md', 'rule content')
+    const result = await discover(project, { globalDirectory })
+
+    expect(result.error).toEqual(null)
+    expect(result.data?.map((f) => f.path)).toEqual([join(project, 'docs/rules.md')])
+    expect(result.data?.[0]?.config).toEqual({ layer: 'project', path: join(project, 'opencode.jsonc') })
+  })
+
+  it('merges instructions from the global, project and nested configs', async () => {
+    const { project, globalDirectory } = await makeLayers()
+    await writeConfig(globalDirectory, { instructions: ['global.md'] })
+    await writeConfig(project, { instructions: ['project.md'] })
+    await writeInstruction(project, '.opencode/opencode.jsonc', '{ "instructions": ["docs/*.md"] }')
+    await writeInstruction(globalDirectory, 'global.md', 'global')
+    await writeInstruction(project, 'project.md', 'project')
+    await writeInstruction(project, 'docs/nested.md', 'nested')
+    const result = await discover(project, { globalDirectory })
+
+    expect(result.error).toEqual(null)
+    expect(result.data?.map((f) => [f.path, f.config?.layer])).toEqual([
+      [join(globalDirectory, 'global.md'), 'global'],
+      [join(project, 'project.md'), 'project'],
+      [join(project, 'docs/nested.md'), 'nested'],
+    ])
+  })
+
+  it('credits a file listed by several layers to the first one', async () => {
+    const { project, globalDirectory } = await makeLayers()
+    await writeConfig(project, { instructions: ['rules.md'] })
+    await writeInstruction(project, '.opencode/opencode.json', JSON.stringify({ instructions: ['*.md'] }))
+    await writeInstruction(project, 'rules.md', 'content')
+    const result = await discover(project, { globalDirectory })
+
+    expect(result.error).toEqual(null)
+    expect(result.data).toHaveLength(1)
+    expect(result.data?.[0]?.config?.layer).toEqual('project')
+  })
+
+  it('uses instructions from another layer when the project config has none', async () => {
+    const { project, globalDirectory } = await makeLayers()
+    await writeConfig(globalDirectory, { instructions: ['global.md'] })
+    await writeConfig(project, { theme: 'opencode' })
+    await writeInstruction(globalDirectory, 'global.md', 'global')
+    const result = await discover(project, { globalDirectory })
+
+    expect(result.error).toEqual(null)
+    expect(result.data?.[0]?.config).toEqual({ layer: 'global', path: join(globalDirectory, 'opencode.json') })
+  })
+
+  it('reports invalid JSONC with the config path', async () => {
+    const { project, globalDirectory } = await makeLayers()
+    await writeFile(join(globalDirectory, 'opencode.jsonc'), '{ "instructions": [', 'utf-8')
+    await writeConfig(project, { instructions: ['*.md'] })
+    const result = await discover(project, { globalDirectory })
+
+    expect(result.data).toEqual(null)
+    expect(result.error).toContain('Invalid JSON in ' + join(globalDirectory, 'opencode.jsonc'))
+  })
+})
+
+describe('discover conventions', () => {
+  afterEach(async () => {
+    if (tmpDir) {
+      await rm(tmpDir, { recursive: true, force: true })
+      tmpDir = ''
+    }
+  })
+
+  it('discovers conventional files without any config', async () => {
+    const dir = await makeTmpDir()
+    await writeInstruction(dir, 'AGENTS.md', 'agents')
+    const result = await discover(dir, { globalDirectory: join(dir, 'global'), conventions: true })
+
+    expect(result.error).toEqual(null)
+    expect(result.data?.map((f) => [f.path, f.convention])).toEqual([[join(dir, 'AGENTS.md'), 'AGENTS.md']])
+  })
+
+  it('enables conventions from sat.json and deduplicates with configured patterns', async () => {
+    const dir = await makeTmpDir()
+    await writeConfig(dir, { instructions: ['AGENTS.md'] })
+    await writeInstruction(dir, 'sat.json', JSON.stringify({ conventions: true }))
+    await writeInstruction(dir, 'AGENTS.md', 'agents')
+    await writeInstruction(dir, 'CLAUDE.md', 'claude')
+    const result = await discover(dir, { globalDirectory: join(dir, 'global') })
+
+    expect(result.error).toEqual(null)
+    expect(result.data).toHaveLength(2)
+    expect(result.data?.[0]?.config?.layer).toEqual('project')
+    expect(result.data?.[0]?.convention).toEqual(undefined)
+    expect(result.data?.[1]?.convention).toEqual('CLAUDE.md')
+  })
+
+  it('ignores conventional files unless enabled', async () => {
+    const dir = await makeTmpDir()
+    await writeConfig(dir, { instructions: ['docs/*.md'] })
+    await writeInstruction(dir, 'docs/rules.md', 'rules')
+    await writeInstruction(dir, 'AGENTS.md', 'agents')
+    const result = await discover(dir, { globalDirectory: join(dir, 'global') })
+
+    expect(result.data?.map((f) => f.path)).toEqual([join(dir, 'docs/rules.md')])
+  })
+
+  it('rejects a conventions value that is not a boolean', async () => {
+    const dir = await makeTmpDir()
+    await writeConfig(dir, { instructions: ['*.md'] })
+    await writeInstruction(dir, 'sat.json', JSON.stringify({ conventions: 'yes' }))
+    const result = await discover(dir, { globalDirectory: join(dir, 'global') })
+
+    expect(result.data).toEqual(null)
+    expect(result.error).toContain('"conventions" in ' + join(dir, 'sat.json'))
+  })
+})
+
+describe('discover remote instructions', () => {
+  afterEach(async () => {
+    if (tmpDir) {
+      await rm(tmpDir, { recursive: true, force: true })
+      tmpDir = ''
+    }
+  })
+
+  it('fetches URL entries as read-only files with their cache status', async () => {
+    const dir = await makeTmpDir()
+    const url = 'https://example.com/rules.md'
+    await writeConfig(dir, { instructions: [url, 'local.md'] })
+    await writeInstruction(dir, 'local.md', 'local')
+    const fetcher = () => Promise.resolve(new Response('remote', { headers: { etag: '"1"' } }))
+    const result = await discover(dir, { globalDirectory: join(dir, 'global'), fetcher })
+
+    expect(result.error).toEqual(null)
+    expect(result.data?.map((f) => f.path)).toEqual([url, join(dir, 'local.md')])
+    expect(result.data?.[0]).toMatchObject({ content: 'remote', remote: { cache: 'fetched' }, readOnly: true })
+    expect(result.data?.[1]?.readOnly).toEqual(undefined)
+  })
+
+  it('reports a failed fetch on the file instead of failing discovery', async () => {
+    const dir = await makeTmpDir()
+    await writeConfig(dir, { instructions: ['https://example.com/missing.md'] })
+    const fetcher = () => Promise.resolve(new Response('not found', { status: 404 }))
+    const result = await discover(dir, { globalDirectory: join(dir, 'global'), fetcher })
+
+    expect(result.error).toEqual(null)
+    expect(result.data?.[0]?.error).toContain('HTTP 404')
+    expect(result.data?.[0]?.readOnly).toEqual(true)
+  })
+})
+
 describe('readFilePaths', () => {
   afterEach(async () => {
     if (tmpDir) {
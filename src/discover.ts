@@ -1,66 +1,172 @@
-import { glob, readFile } from 'node:fs/promises'
+import { glob } from 'node:fs/promises'
+import { homedir } from 'node:os'
 import { join, resolve } from 'node:path'
-import { type Result, safe, safeAsync } from './safe.ts'
+import {
+  type ConfigLayer,
+  type ConfigLayerName,
+  type ConfigOptions,
+  readConfigLayers,
+  readSettingLayers,
+  satSetting,
+} from './config.ts'
+import { CONVENTIONS, type Convention, findConventionFiles } from './conventions.ts'
+import { CACHE_DIR, type CacheStatus, type Fetcher, fetchRemote, isUrl } from './remote.ts'
+import type { Result } from './safe.ts'
+import { type FileStamp, readStamped } from './stamp.ts'
 
 export type InstructionFile = {
   path: string
   content: string
   error?: string
+  // config layer whose "instructions" matched the file; absent for explicit paths
+  config?: ConfigSource
+  // conventional file name the file was found as, when no config layer listed it
+  convention?: Convention
+  // URL entries from "instructions", read through the cache; path holds the URL
+  remote?: RemoteSource
+  // the write tools refuse files they cannot write back
+  readOnly?: boolean
+  // hash and mtime when the file was read, so writes can refuse files edited since
+  stamp?: FileStamp
+}
+
+// what discover-rules returned for a file: later steps check rules against this content, since remote files have no
+// path on disk to read again, and compare the stamp (null for unreadable and remote files) before writing
+export type DiscoveredFile = {
+  content: string
+  stamp: FileStamp | null
+}
+
+export type Discovered = Map<string, DiscoveredFile>
+
+export type RemoteSource = {
+  cache: CacheStatus
+}
+
+export type ConfigSource = {
+  layer: ConfigLayerName
+  path: string
 }
 
 type DiscoverResult = Result<InstructionFile[], string>
-type ConfigResult = Result<string[], string>
 
-const readConfig = async (directory: string): Promise<ConfigResult> => {
-  const configPath = join(directory, 'opencode.json')
-  const readResult = await safeAsync(() => readFile(configPath, 'utf-8'))
-  if (readResult.error) {
+export type DiscoverOptions = ConfigOptions & {
+  // also read AGENTS.md, CLAUDE.md and the other conventional files; defaults to "sat.conventions" in the configs
+  conventions?: boolean
+  // fetches URL entries; defaults to the global fetch
+  fetcher?: Fetcher
+  // where fetched URL entries are cached; defaults to .opencode/sat-cache in the project
+  cacheDirectory?: string
+}
+
+type Pattern = {
+  pattern: string
+  base: string
+  source: ConfigSource
+}
+
+type ConfigPatterns = {
+  layers: ConfigLayer[]
+  patterns: Pattern[]
+}
+
+// "~/" patterns point into the home directory, as opencode allows in the global config
+const expandHome = (pattern: string): string => {
+  return pattern.startsWith('~/') ? join(homedir(), pattern.slice(2)) : pattern
+}
+
+// collect instruction patterns from every config layer, lowest precedence first
+const readPatterns = async (directory: string, options?: DiscoverOptions): Promise<Result<ConfigPatterns, string>> => {
+  const layersResult = await readConfigLayers(directory, options)
+  if (layersResult.error !== null) {
     return {
       data: null,
-      error: 'Could not read ' + configPath + ': ' + readResult.error.message,
+      error: layersResult.error,
     }
   }
 
-  const parseResult = safe(() => JSON.parse(readResult.data))
-  if (parseResult.error) {
+  const layers = layersResult.data
+  const patterns: Pattern[] = []
+
+  for (const layer of layers) {
+    const instructions = layer.config.instructions
+    if (!Array.isArray(instructions) || instructions.length === 0) continue
+
+    const strings = instructions.filter((entry: unknown) => typeof entry === 'string')
+    if (strings.length === 0) {
+      return {
+        data: null,
+        error: 'No valid string patterns in "instructions" in ' + layer.path,
+      }
+    }
+
+    const source = { layer: layer.layer, path: layer.path }
+    patterns.push(...strings.map((pattern) => ({ pattern: expandHome(pattern), base: layer.base, source })))
+  }
+
+  return {
+    data: { layers, patterns },
+    error: null,
+  }
+}
+
+// the explicit option wins over { "conventions": true } in the sat.json layers
+const readConventions = async (directory: string, options?: DiscoverOptions): Promise<Result<boolean, string>> => {
+  if (options?.conventions !== undefined) {
     return {
-      data: null,
-      error: 'Invalid JSON in ' + configPath + ': ' + parseResult.error.message,
+      data: options.conventions,
+      error: null,
     }
   }
 
-  const instructions = parseResult.data.instructions
-  if (!Array.isArray(instructions) || instructions.length === 0) {
+  const layersResult = await readSettingLayers(directory, options)
+  if (layersResult.error !== null) {
     return {
       data: null,
-      error: 'No "instructions" array found in ' + configPath,
+      error: layersResult.error,
     }
   }
 
-  const patterns = instructions.filter((entry: unknown) => typeof entry === 'string')
-  if (patterns.length === 0) {
+  const setting = satSetting(layersResult.data, 'conventions')
+  if (setting && typeof setting.value !== 'boolean') {
     return {
       data: null,
-      error: 'No valid string patterns in "instructions" in ' + configPath,
+      error: 'Invalid "conventions" in ' + setting.path + ': expected true or false',
     }
   }
 
   return {
-    data: patterns,
+    data: setting?.value === true,
     error: null,
   }
 }
 
-const matchPatterns = async (directory: string, patterns: string[]) => {
+type Match = {
+  path: string
+  config?: ConfigSource
+  convention?: Convention
+  remote?: boolean
+}
+
+// the first layer that matches a file is the one reported for it; URL entries are kept as they are
+const matchPatterns = async (patterns: Pattern[]) => {
   const seen = new Set<string>()
-  const files: string[] = []
+  const files: Match[] = []
+
+  for (const { pattern, base, source } of patterns) {
+    if (isUrl(pattern)) {
+      if (!seen.has(pattern)) {
+        seen.add(pattern)
+        files.push({ path: pattern, config: source, remote: true })
+      }
+      continue
+    }
 
-  for (const pattern of patterns) {
-    for await (const path of glob(pattern, { cwd: directory })) {
-      const full = join(directory, path)
+    for await (const path of glob(pattern, { cwd: base })) {
+      const full = resolve(base, path)
       if (!seen.has(full)) {
         seen.add(full)
-        files.push(full)
+        files.push({ path: full, config: source })
       }
     }
   }
@@ -72,7 +178,7 @@ const readFiles = async (files: string[]) => {
   const results: InstructionFile[] = []
 
   for (const file of files) {
-    const readResult = await safeAsync(() => readFile(file, 'utf-8'))
+    const readResult = await readStamped(file)
     if (readResult.error) {
       results.push({
         path: file,
@@ -84,7 +190,46 @@ const readFiles = async (files: string[]) => {
 
     results.push({
       path: file,
-      content: readResult.data,
+      content: readResult.data.content,
+      stamp: readResult.data.stamp,
+    })
+  }
+
+  return results
+}
+
+type ReadMatchesOptions = {
+  fetcher?: Fetcher
+  cacheDirectory: string
+}
+
+// read local matches from disk and fetch URL matches, keeping discovery order
+const readMatches = async (matches: Match[], options: ReadMatchesOptions): Promise<InstructionFile[]> => {
+  const results: InstructionFile[] = []
+
+  for (const match of matches) {
+    const source = { config: match.config, convention: match.convention }
+
+    if (!match.remote) {
+      const [file] = await readFiles([match.path])
+      if (file) {
+        results.push({ ...file, ...source })
+      }
+      continue
+    }
+
+    const fetched = await fetchRemote({ url: match.path, ...options })
+    if (fetched.error !== null) {
+      results.push({ path: match.path, content: '', error: fetched.error, ...source, readOnly: true })
+      continue
+    }
+
+    results.push({
+      path: match.path,
+      content: fetched.data.content,
+      ...source,
+      remote: { cache: fetched.data.cache },
+      readOnly: true,
     })
   }
 
@@ -97,8 +242,10 @@ export const readFilePaths = async (directory: string, paths: string[]): Promise
   return await readFiles(resolved)
 }
 
-export const discover = async (directory: string): Promise<DiscoverResult> => {
-  const config = await readConfig(directory)
+// discover instruction files from the global, project and .opencode/ configs, merging their "instructions",
+// plus AGENTS.md and the other conventional files when enabled
+export const discover = async (directory: string, options?: DiscoverOptions): Promise<DiscoverResult> => {
+  const config = await readPatterns(directory, options)
   if (config.error !== null) {
     return {
       data: null,
@@ -106,17 +253,52 @@ export const discover = async (directory: string): Promise<DiscoverResult> => {
     }
   }
 
-  const patterns = config.data
-  const files = await matchPatterns(directory, patterns)
-  if (files.length === 0) {
+  const { layers, patterns } = config.data
+  const conventions = await readConventions(directory, options)
+  if (conventions.error !== null) {
+    return {
+      data: null,
+      error: conventions.error,
+    }
+  }
+
+  // conventional files stand in for a config when enabled
+  if (!conventions.data && layers.length === 0) {
+    return {
+      data: null,
+      error: 'Could not read ' + join(directory, 'opencode.json') + ': no opencode.json or opencode.jsonc found in '
+        + directory + ', ' + join(directory, '.opencode') + ' or the global config directory',
+    }
+  }
+
+  if (!conventions.data && patterns.length === 0) {
+    return {
+      data: null,
+      error: 'No "instructions" array found in ' + layers.map((layer) => layer.path).join(', '),
+    }
+  }
+
+  const matches = await matchPatterns(patterns)
+  if (conventions.data) {
+    const seen = new Set(matches.map((match) => match.path))
+    const found = await findConventionFiles(directory)
+    matches.push(...found.filter((match) => !seen.has(match.path)))
+  }
+
+  if (matches.length === 0) {
     return {
       data: null,
-      error: 'No instruction files found matching patterns: ' + patterns.join(', '),
+      error: conventions.data && patterns.length === 0
+        ? 'No instruction files found in ' + directory + ' or its conventional locations: ' + CONVENTIONS.join(', ')
+        : 'No instruction files found matching patterns: ' + patterns.map((p) => p.pattern).join(', '),
     }
   }
 
   return {
-    data: await readFiles(files),
+    data: await readMatches(matches, {
+      fetcher: options?.fetcher,
+      cacheDirectory: options?.cacheDirectory || join(directory, CACHE_DIR),
+    }),
     error: null,
   }
 }
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'bun:test'
+import { findDuplicates, similarity } from './duplicates.ts'
+
+describe('similarity', () => {
+  it('returns 1 for identical word sets', () => {
+    expect(similarity('use return await', 'return await use')).toEqual(1)
+  })
+
+  it('returns 0 for disjoint word sets', () => {
+    expect(similarity('use tabs', 'prefer spaces')).toEqual(0)
+  })
+
+  it('scores partial overlap between 0 and 1', () => {
+    const score = similarity('use return await in async functions', 'use return await')
+
+    expect(score).toBeGreaterThan(0)
+    expect(score).toBeLessThan(1)
+  })
+})
+
+describe('findDuplicates', () => {
+  const existing = [
+    'Rule: Use return await when returning promises from async functions.\nReason: Better stack traces.',
+    '- Do not use type assertions.',
+  ]
+
+  it('adds rules that do not exist yet', () => {
+    const result = findDuplicates(existing, ['- Use arrow functions.'])
+
+    expect(result.added).toEqual(['- Use arrow functions.'])
+    expect(result.skipped).toEqual([])
+  })
+
+  it('skips exact duplicates across modes, case, and punctuation', () => {
+    const result = findDuplicates(existing, ['Rule: do not use type assertions\nReason: Type safety.'])
+
+    expect(result.added).toEqual([])
+    expect(result.skipped.length).toEqual(1)
+    expect(result.skipped[0]?.match).toEqual('- Do not use type assertions.')
+    expect(result.skipped[0]?.similarity).toEqual(1)
+  })
+
+  it('treats contractions as their expanded form', () => {
+    const result = findDuplicates(existing, ["- Don't use type assertions."])
+
+    expect(result.skipped.length).toEqual(1)
+  })
+
+  it('adds near-duplicates above the threshold and reports them', () => {
+    const rule = '- Use return await when returning promises from all async functions.'
+    const result = findDuplicates(existing, [rule])
+
+    expect(result.added).toEqual([rule])
+    expect(result.skipped).toEqual([])
+    expect(result.near[0]?.match).toEqual(existing[0])
+    expect(result.near[0]?.similarity).toBeLessThan(1)
+  })
+
+  it('does not skip rules that differ in a number or an extra word', () => {
+    const result = findDuplicates(
+      ['Rule: Use 2 spaces for indentation in TypeScript files.', '- Use git rebase'],
+      ['Rule: Use 4 spaces for indentation in TypeScript files.', '- Use git'],
+    )
+
+    expect(result.added.length).toEqual(2)
+    expect(result.skipped).toEqual([])
+  })
+
+  it('does not treat a negated rule as a duplicate of its positive form', () => {
+    const result = findDuplicates(existing, ['- Use type assertions.'])
+
+    expect(result.added).toEqual(['- Use type assertions.'])
+  })
+
+  it('skips repeats within the incoming rules', () => {
+    const result = findDuplicates([], ['- Use tabs.', '- use tabs'])
+
+    expect(result.added).toEqual(['- Use tabs.'])
+    expect(result.skipped[0]?.match).toEqual('- Use tabs.')
+  })
+})
@@ -0,0 +1,86 @@
+import { NEGATION_PATTERN, normalizeRule } from './rule-text.ts'
+
+// token overlap at or above this is reported as a near match
+export const NEAR_DUPLICATE_THRESHOLD = 0.8
+
+const PERMISSION_PATTERN = /\bmay\b/
+
+// Dice coefficient over the distinct words of two normalized rules, 1 for identical word sets
+export const similarity = (a: string, b: string): number => {
+  const aWords = new Set(a.split(' ').filter((w) => w.length > 0))
+  const bWords = new Set(b.split(' ').filter((w) => w.length > 0))
+
+  if (aWords.size === 0 && bWords.size === 0) {
+    return 1
+  }
+
+  let shared = 0
+  for (const word of aWords) {
+    if (bWords.has(word)) shared++
+  }
+
+  return (2 * shared) / (aWords.size + bWords.size)
+}
+
+// rules that differ in negation or permission are opposites, however many words they share
+const sameModality = (a: string, b: string): boolean => {
+  const negated = NEGATION_PATTERN.test(a) === NEGATION_PATTERN.test(b)
+  const permitted = PERMISSION_PATTERN.test(a) === PERMISSION_PATTERN.test(b)
+  return negated && permitted
+}
+
+// similarity of two normalized rules, 0 when their modality differs
+export const matchScore = (a: string, b: string): number => {
+  return sameModality(a, b) ? similarity(a, b) : 0
+}
+
+export type DuplicateMatch = {
+  rule: string
+  match: string
+  similarity: number
+}
+
+type FindDuplicatesResult = {
+  added: Array<string>
+  // exact repeats after normalization, left out
+  skipped: Array<DuplicateMatch>
+  // added rules that only resemble an existing one; a number or one extra word can change what a rule asks for
+  near: Array<DuplicateMatch>
+}
+
+// split incoming rules into new ones and ones that repeat an existing rule or an earlier incoming rule; only exact
+// repeats are skipped, near matches are reported alongside the added rules
+export const findDuplicates = (existing: Array<string>, incoming: Array<string>): FindDuplicatesResult => {
+  const known = existing.map((rule) => ({ rule, normalized: normalizeRule(rule) }))
+  const added: Array<string> = []
+  const skipped: Array<DuplicateMatch> = []
+  const near: Array<DuplicateMatch> = []
+
+  for (const rule of incoming) {
+    const normalized = normalizeRule(rule)
+
+    const exact = known.find((candidate) => candidate.normalized === normalized)
+    if (exact) {
+      skipped.push({ rule, match: exact.rule, similarity: 1 })
+      continue
+    }
+
+    let best: DuplicateMatch | null = null
+
+    for (const candidate of known) {
+      const score = matchScore(normalized, candidate.normalized)
+      if (score >= NEAR_DUPLICATE_THRESHOLD && (!best || score > best.similarity)) {
+        best = { rule, match: candidate.rule, similarity: score }
+      }
+    }
+
+    if (best) {
+      near.push(best)
+    }
+
+    added.push(rule)
+    known.push({ rule, normalized })
+  }
+
+  return { added, skipped, near }
+}
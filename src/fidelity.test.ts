@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'bun:test'
+import { readFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { checkFidelity } from './fidelity.ts'
+import type { ParsedRule } from './rule-schema.ts'
+
+const fixture = async (name: string): Promise<string> => {
+  return await readFile(join(import.meta.dir, '..', 'fixtures', name), 'utf-8')
+}
+
+const rule = (action: string, target: string, context?: string): ParsedRule => ({
+  strength: 'obligatory',
+  action,
+  target,
+  context,
+  reason: '',
+})
+
+describe('checkFidelity', () => {
+  it('accepts rules taken from the source text', async () => {
+    const source = await fixture('typescript.md')
+
+    const issues = checkFidelity([
+      rule('use', 'non-null assertions'),
+      rule('use', 'type declarations', 'instead of interface declarations'),
+      rule('write', 'return await', 'when returning a promise from an async function'),
+    ], [source])
+
+    expect(issues).toEqual([])
+  })
+
+  it('matches inflected terms', () => {
+    const issues = checkFidelity([rule('wrap', 'configuration errors')], ['Always wraps config errors.'])
+
+    expect(issues).toEqual([])
+  })
+
+  it('flags rules whose terms are missing from the source', async () => {
+    const source = await fixture('typescript.md')
+
+    const issues = checkFidelity([
+      rule('use', 'non-null assertions'),
+      rule('enable', 'strict mode', 'in tsconfig'),
+    ], [source])
+
+    expect(issues.length).toEqual(1)
+    expect(issues[0]?.path).toEqual(['rules', 1])
+    expect(issues[0]?.message.includes('tsconfig')).toEqual(true)
+  })
+
+  it('tolerates an inferred action when the target is in the source', () => {
+    const issues = checkFidelity([rule('use', 'default exports')], ['No default exports.'])
+
+    expect(issues).toEqual([])
+  })
+
+  it('searches every source', () => {
+    const issues = checkFidelity([rule('squash', 'commits')], ['Prefer arrow functions.', 'Squash commits first.'])
+
+    expect(issues).toEqual([])
+  })
+})
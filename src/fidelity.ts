@@ -0,0 +1,83 @@
+import type { ParsedRule } from './rule-schema.ts'
+import type { ValidationIssue } from './validate.ts'
+
+// a rule is suspicious when more than this share of its key terms are missing from the source text
+export const FIDELITY_THRESHOLD = 0.5
+
+// filler words that say nothing about whether a rule was invented
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'when', 'from', 'into', 'that', 'this', 'any', 'all', 'are', 'not', 'its', 'your',
+])
+
+const words = (text: string): Array<string> => {
+  return text
+    .toLowerCase()
+    .replace(/n't\b/g, ' not')
+    .replace(/[^a-z0-9\s]+/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word.length > 0)
+}
+
+// strip a common inflection so "uses", "using" and "used" all match "use"
+const stem = (word: string): string => {
+  const stripped = word.replace(/(ing|ed|es|s|e)$/, '')
+  return stripped.length >= 2 ? stripped : word
+}
+
+const keyTerms = (rule: ParsedRule): Array<string> => {
+  const text = [rule.action, rule.target, rule.context || ''].join(' ')
+  return [...new Set(words(text).filter((word) => word.length >= 3 && !STOP_WORDS.has(word)))]
+}
+
+// word stems of the given texts, for looking up rule terms
+export const textStems = (texts: Array<string>): Set<string> => {
+  return new Set(texts.flatMap(words).map(stem))
+}
+
+const appears = (term: string, stems: Set<string>): boolean => {
+  const stemmed = stem(term)
+  if (stems.has(stemmed)) return true
+
+  // compounds and longer inflections: "assert" in "assertions", "config" in "configuration"
+  if (stemmed.length < 4) return false
+  for (const candidate of stems) {
+    if (candidate.length >= 4 && (candidate.startsWith(stemmed) || stemmed.startsWith(candidate))) return true
+  }
+
+  return false
+}
+
+// key terms of the rule's action, target and context that are not among the stems
+export const missingTerms = (rule: ParsedRule, stems: Set<string>): Array<string> => {
+  return keyTerms(rule).filter((term) => !appears(term, stems))
+}
+
+// whether the rule's terms mostly appear among the stems, vacuously true for rules without key terms
+export const isGrounded = (rule: ParsedRule, stems: Set<string>): boolean => {
+  const terms = keyTerms(rule)
+  return terms.length === 0 || missingTerms(rule, stems).length / terms.length <= FIDELITY_THRESHOLD
+}
+
+// whether the rule has key terms and they mostly appear among the stems, so a rule without terms matches nothing
+export const isRestated = (rule: ParsedRule, stems: Set<string>): boolean => {
+  return keyTerms(rule).length > 0 && isGrounded(rule, stems)
+}
+
+// flag parsed rules whose action, target and context terms mostly do not appear in the source text
+export const checkFidelity = (rules: Array<ParsedRule>, sources: Array<string>): Array<ValidationIssue> => {
+  const stems = textStems(sources)
+  const issues: Array<ValidationIssue> = []
+
+  rules.forEach((rule, index) => {
+    if (!isGrounded(rule, stems)) {
+      const missing = missingTerms(rule, stems)
+      issues.push({
+        path: ['rules', index],
+        message: 'key terms not found in the source text: ' + missing.join(', ')
+          + '. Drop the rule if it was invented, or reword it with the terms the source uses',
+      })
+    }
+  })
+
+  return issues
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'bun:test'
+import { formatDirective, formatRules } from './format-rules.ts'
+import type { ParsedRule } from './rule-schema.ts'
+
+const RETURN_AWAIT: ParsedRule = {
+  strength: 'obligatory',
+  action: 'use',
+  target: 'return await',
+  context: 'when returning promises from async functions',
+  reason: 'better stack traces and error handling',
+}
+
+const TYPE_ASSERTIONS: ParsedRule = {
+  strength: 'forbidden',
+  action: 'use',
+  target: 'type assertions',
+  reason: 'maintains type safety',
+}
+
+const ARROW_FUNCTIONS: ParsedRule = {
+  strength: 'obligatory',
+  action: 'use',
+  target: 'arrow functions',
+  reason: 'use arrow functions',
+}
+
+describe('formatDirective', () => {
+  it('renders obligatory rules as positive imperatives', () => {
+    expect(formatDirective(RETURN_AWAIT)).toEqual('Use return await when returning promises from async functions.')
+  })
+
+  it('negates forbidden rules with do not', () => {
+    expect(formatDirective(TYPE_ASSERTIONS)).toEqual('Do not use type assertions.')
+  })
+
+  it('applies the prefix for each remaining strength', () => {
+    const base = { action: 'add', target: 'a commit body', reason: '' }
+
+    expect(formatDirective({ ...base, strength: 'permissible' })).toEqual('May add a commit body.')
+    expect(formatDirective({ ...base, strength: 'optional' })).toEqual('May choose to add a commit body.')
+    expect(formatDirective({ ...base, strength: 'supererogatory' })).toEqual('Ideally add a commit body.')
+    expect(formatDirective({ ...base, strength: 'indifferent' })).toEqual('Either way is fine to add a commit body.')
+  })
+
+  it('does not repeat an action already carried by the prefix', () => {
+    const rule: ParsedRule = { strength: 'omissible', action: 'omit', target: 'post-task explanations', reason: '' }
+
+    expect(formatDirective(rule)).toEqual('May omit post-task explanations.')
+  })
+
+  it('lets a negative action carry the negation of a forbidden rule', () => {
+    expect(formatDirective({ ...TYPE_ASSERTIONS, action: 'avoid' })).toEqual('Avoid type assertions.')
+    expect(formatDirective({ ...TYPE_ASSERTIONS, action: 'never', target: 'commit secrets' })).toEqual(
+      'Never commit secrets.',
+    )
+    expect(formatDirective({ ...TYPE_ASSERTIONS, action: 'refrain from', target: 'using any' })).toEqual(
+      'Refrain from using any.',
+    )
+    expect(formatDirective({ ...TYPE_ASSERTIONS, action: "don't", target: 'commit secrets' })).toEqual(
+      'Do not commit secrets.',
+    )
+  })
+
+  it('renders omissible rules with another action as may choose not to', () => {
+    const rule: ParsedRule = { strength: 'omissible', action: 'add', target: 'explanations', reason: '' }
+
+    expect(formatDirective(rule)).toEqual('May choose not to add explanations.')
+    expect(formatDirective({ ...rule, action: 'skip' })).toEqual('May skip explanations.')
+  })
+
+  it('keeps existing terminal punctuation', () => {
+    const rule: ParsedRule = { strength: 'obligatory', action: 'reply', target: '"Done!"', reason: '' }
+
+    expect(formatDirective(rule)).toEqual('Reply "Done!".')
+    expect(formatDirective({ ...rule, target: 'Done!' })).toEqual('Reply Done!')
+  })
+})
+
+describe('formatRules', () => {
+  it('renders Rule and Reason lines for every rule in verbose mode', () => {
+    const result = formatRules([RETURN_AWAIT, ARROW_FUNCTIONS], 'verbose')
+
+    expect(result).toEqual([
+      'Rule: Use return await when returning promises from async functions.\nReason: Better stack traces and error handling.',
+      'Rule: Use arrow functions.\nReason: Use arrow functions.',
+    ])
+  })
+
+  it('drops reasons that restate the directive in balanced mode', () => {
+    const result = formatRules([RETURN_AWAIT, ARROW_FUNCTIONS], 'balanced')
+
+    expect(result).toEqual([
+      'Rule: Use return await when returning promises from async functions.\nReason: Better stack traces and error handling.',
+      'Rule: Use arrow functions.',
+    ])
+  })
+
+  it('drops empty reasons in verbose mode', () => {
+    const result = formatRules([{ ...TYPE_ASSERTIONS, reason: '' }], 'verbose')
+
+    expect(result).toEqual(['Rule: Do not use type assertions.'])
+  })
+
+  it('renders bullets without reasons in concise mode', () => {
+    const result = formatRules([RETURN_AWAIT, TYPE_ASSERTIONS], 'concise')
+
+    expect(result).toEqual([
+      '- Use return await when returning promises from async functions.',
+      '- Do not use type assertions.',
+    ])
+  })
+
+  it('returns an empty array for no rules', () => {
+    expect(formatRules([], 'balanced')).toEqual([])
+  })
+
+  it('is deterministic across calls', () => {
+    const first = formatRules([RETURN_AWAIT, TYPE_ASSERTIONS], 'balanced')
+    const second = formatRules([RETURN_AWAIT, TYPE_ASSERTIONS], 'balanced')
+
+    expect(first).toEqual(second)
+  })
+})
@@ -0,0 +1,94 @@
+import type { Mode, ParsedRule, Strength } from './rule-schema.ts'
+import { NEGATING_ACTION } from './rule-text.ts'
+
+// natural language prefix for each deontic strength, mirrors DEONTIC_STRENGTHS
+const STRENGTH_PREFIXES: Record<Strength, string> = {
+  obligatory: '',
+  forbidden: 'do not',
+  permissible: 'may',
+  optional: 'may choose to',
+  supererogatory: 'ideally',
+  indifferent: 'either way is fine to',
+  omissible: 'may omit',
+}
+
+const capitalize = (text: string): string => {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+// capitalize and terminate a phrase so every rendered line reads as a sentence
+const toSentence = (text: string): string => {
+  const trimmed = text.trim()
+  if (trimmed.length === 0) {
+    return ''
+  }
+
+  const terminated = /[.!?]$/.test(trimmed) ? trimmed : trimmed + '.'
+  return capitalize(terminated)
+}
+
+const words = (text: string): Array<string> => {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter((w) => w.length > 0)
+}
+
+const NOT_ACTION = /^(do not|don't|not)$/i
+// actions that already leave the act out, so an omissible rule needs only "may"
+const OMITTING_ACTION = /^(omit|skip|leave out)\b/i
+
+// prefix and action for the rule, normalizing actions that carry the negation themselves
+const directiveHead = (rule: ParsedRule): Array<string> => {
+  const action = rule.action.trim()
+
+  if (rule.strength === 'forbidden' && NOT_ACTION.test(action)) {
+    return [STRENGTH_PREFIXES.forbidden]
+  }
+
+  // "do not" in front of an action that already negates would invert the rule ("Do not avoid ...")
+  if (rule.strength === 'forbidden' && NEGATING_ACTION.test(action)) {
+    return [action]
+  }
+
+  if (rule.strength === 'omissible') {
+    return OMITTING_ACTION.test(action) ? ['may', action] : ['may choose not to', action]
+  }
+
+  return [STRENGTH_PREFIXES[rule.strength], action]
+}
+
+// build the directive from the strength prefix, action, target and context
+export const formatDirective = (rule: ParsedRule): string => {
+  const parts = [...directiveHead(rule), rule.target, rule.context || '']
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0)
+
+  return toSentence(parts.join(' '))
+}
+
+// a reason is obvious when every significant word in it already appears in the directive
+const isObviousReason = (directive: string, reason: string): boolean => {
+  const directiveWords = new Set(words(directive))
+  const significant = words(reason).filter((w) => w.length > 3)
+  return significant.every((w) => directiveWords.has(w))
+}
+
+const formatRule = (rule: ParsedRule, mode: Mode): string => {
+  const directive = formatDirective(rule)
+
+  if (mode === 'concise') {
+    return '- ' + directive
+  }
+
+  const reason = toSentence(rule.reason)
+  const includeReason = reason.length > 0 && (mode === 'verbose' || !isObviousReason(directive, reason))
+
+  if (!includeReason) {
+    return 'Rule: ' + directive
+  }
+
+  return 'Rule: ' + directive + '\nReason: ' + reason
+}
+
+// render parsed rules into formatted rule strings for the given mode
+export const formatRules = (rules: Array<ParsedRule>, mode: Mode): Array<string> => {
+  return rules.map((rule) => formatRule(rule, mode))
+}
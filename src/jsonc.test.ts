@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'bun:test'
+import { parseJsonc } from './jsonc.ts'
+
+describe('parseJsonc', () => {
+  it('parses plain JSON', () => {
+    expect(parseJsonc('{"instructions": ["a.md"]}')).toEqual({ data: { instructions: ['a.md'] }, error: null })
+  })
+
+  it('ignores line and block comments', () => {
+    const text = '{\n  // rules\n  "instructions": /* shared */ ["a.md"]\n}'
+
+    expect(parseJsonc(text).data).toEqual({ instructions: ['a.md'] })
+  })
+
+  it('drops trailing commas in objects and arrays', () => {
+    const text = '{\n  "instructions": ["a.md", "b.md",],\n  "permission": { "edit": "ask", },\n}'
+
+    expect(parseJsonc(text).data).toEqual({ instructions: ['a.md', 'b.md'], permission: { edit: 'ask' } })
+  })
+
+  it('leaves comment markers and commas inside strings alone', () => {
+    const text = '{"url": "https://example.com/*.md", "note": "a, ]", "escaped": "\\"//\\""}'
+
+    expect(parseJsonc(text).data).toEqual({ url: 'https://example.com/*.md', note: 'a, ]', escaped: '"//"' })
+  })
+
+  it('returns an error for invalid JSON', () => {
+    const result = parseJsonc('{"instructions": [')
+
+    expect(result.data).toBeNull()
+    expect(result.error).toBeInstanceOf(Error)
+  })
+})
@@ -0,0 +1,85 @@
+import { safe } from './safe.ts'
+
+// drop // and /* */ comments outside strings, keeping newlines so JSON.parse positions stay close
+const stripComments = (text: string): string => {
+  let result = ''
+  let inString = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    const next = text[i + 1]
+
+    if (inString) {
+      result += char
+      if (char === '\\') {
+        result += next || ''
+        i++
+      } else if (char === '"') {
+        inString = false
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inString = true
+      result += char
+      continue
+    }
+
+    if (char === '/' && next === '/') {
+      while (i < text.length && text[i] !== '\n') i++
+      result += '\n'
+      continue
+    }
+
+    if (char === '/' && next === '*') {
+      const end = text.indexOf('*/', i + 2)
+      const comment = text.slice(i, end === -1 ? text.length : end + 2)
+      result += comment.replace(/[^\n]/g, '')
+      i = end === -1 ? text.length : end + 1
+      continue
+    }
+
+    result += char
+  }
+
+  return result
+}
+
+// drop commas directly before a closing bracket, outside strings
+const stripTrailingCommas = (text: string): string => {
+  let result = ''
+  let inString = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inString) {
+      result += char
+      if (char === '\\') {
+        result += text[i + 1] || ''
+        i++
+      } else if (char === '"') {
+        inString = false
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inString = true
+    }
+
+    if (char === ',' && /^\s*[}\]]/.test(text.slice(i + 1))) {
+      continue
+    }
+
+    result += char
+  }
+
+  return result
+}
+
+// parse JSON with comments and trailing commas, as opencode.jsonc allows
+export const parseJsonc = (text: string) => {
+  return safe(() => JSON.parse(stripTrailingCommas(stripComments(text))))
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'bun:test'
+import { readFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { formatRules } from './format-rules.ts'
+import { formatDiagnostics, lintContent, lintFiles } from './lint.ts'
+import type { ParsedRule } from './rule-schema.ts'
+
+const lint = (lines: Array<string>) => {
+  return lintContent('rules.md', lines.join('\n')).map((d) => [d.line, d.rule])
+}
+
+describe('lintContent', () => {
+  it('accepts the formats format-rules produces', async () => {
+    const content = await readFile(join(import.meta.dir, '..', 'instructions', 'instructions.md'), 'utf-8')
+
+    expect(lintContent('instructions.md', content)).toEqual([])
+  })
+
+  it('accepts what format-rules renders for every strength and negating action', () => {
+    const base: ParsedRule = { strength: 'forbidden', action: 'use', target: 'type assertions', reason: 'Type safety.' }
+    const rules: Array<ParsedRule> = [
+      base,
+      { ...base, action: 'avoid' },
+      { ...base, action: 'never', target: 'commit secrets' },
+      { ...base, action: 'refrain from', target: 'using any' },
+      { ...base, strength: 'omissible', action: 'add', target: 'explanations' },
+      { ...base, strength: 'indifferent' },
+    ]
+
+    for (const mode of ['verbose', 'balanced', 'concise'] as const) {
+      expect(lintContent('rules.md', formatRules(rules, mode).join('\n\n') + '\n')).toEqual([])
+    }
+  })
+
+  it('accepts concise bullets, headings, and code blocks', () => {
+    expect(lint(['# Rules', '', '- Use arrow functions.', '- Do not use classes.', '', '```', 'Never mind', '```']))
+      .toEqual([])
+  })
+
+  it('reports prose blocks', () => {
+    expect(lint(['Rule: Use arrow functions.', '', 'Some prose about the project.'])).toEqual([[3, 'block-format']])
+  })
+
+  it('reports extra lines in a Rule block', () => {
+    expect(lint(['Rule: Use arrow functions.', 'Reason: Consistency.', 'More text.'])).toEqual([[3, 'block-format']])
+    expect(lint(['Rule: Use arrow functions.', 'Consistency.'])).toEqual([[2, 'block-format']])
+  })
+
+  it('reports empty reasons', () => {
+    expect(lint(['Rule: Use arrow functions.', 'Reason:'])).toEqual([[2, 'empty-reason']])
+  })
+
+  it('reports mixed modes against the first formatted block', () => {
+    expect(lint(['- Use arrow functions.', '', 'Rule: Use types.', 'Reason: Unions.'])).toEqual([[3, 'mixed-modes']])
+  })
+
+  it('reports em dashes outside code', () => {
+    expect(lint(['- Use arrow functions — always.', '', '```', 'a — b', '```'])).toEqual([[1, 'em-dash']])
+  })
+
+  it('reports forbidden rules not opening with a negation format-rules renders', () => {
+    expect(lint(['- Must not use classes.', '- Avoid any.', '- No default exports.', '- Never use enums.']))
+      .toEqual([[1, 'forbidden-phrasing'], [3, 'forbidden-phrasing']])
+  })
+
+  it('sorts diagnostics by line and attaches the path', () => {
+    const diagnostics = lintContent('a.md', ['Rule: No — any.', 'Reason:'].join('\n'))
+
+    expect(diagnostics.map((d) => [d.path, d.line, d.rule])).toEqual([
+      ['a.md', 1, 'forbidden-phrasing'],
+      ['a.md', 1, 'em-dash'],
+      ['a.md', 2, 'empty-reason'],
+    ])
+  })
+})
+
+describe('lintFiles', () => {
+  it('skips unreadable files', () => {
+    const diagnostics = lintFiles([
+      { path: 'a.md', content: '', error: 'ENOENT' },
+      { path: 'b.md', content: 'prose' },
+    ])
+
+    expect(diagnostics.map((d) => d.path)).toEqual(['b.md'])
+  })
+})
+
+describe('formatDiagnostics', () => {
+  it('prints one path:line rule-id message line per diagnostic', () => {
+    const text = formatDiagnostics(lintContent('/p/a.md', '- No any.'), (path) => path.replace('/p/', ''))
+
+    expect(text).toEqual('a.md:1  forbidden-phrasing  Forbidden rule should start with "Do not": No any.')
+  })
+})
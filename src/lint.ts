@@ -0,0 +1,198 @@
+import type { InstructionFile } from './discover.ts'
+
+export type LintRuleId = 'block-format' | 'mixed-modes' | 'em-dash' | 'empty-reason' | 'forbidden-phrasing'
+
+export type LintDiagnostic = {
+  path: string
+  // 1-based line the problem starts on
+  line: number
+  rule: LintRuleId
+  message: string
+}
+
+// a diagnostic before the file path is attached
+type LintFinding = Omit<LintDiagnostic, 'path'>
+
+const RULE_LINE = /^rule:\s*/i
+const REASON_LINE = /^reason:\s*/i
+const BULLET_LINE = /^[-*]\s+/
+const HEADING = /^#{1,6}\s/
+const FENCE = /^(```|~~~)/
+const EM_DASH = '—'
+
+// prohibitions not opening with a negation format-rules renders ("Do not", or an action such as "Avoid" or "Never")
+const FORBIDDEN_CUES = /^(no|must not|should not)\b/i
+
+type Block = {
+  line: number
+  lines: Array<string>
+}
+
+// paragraphs outside fenced code, each with the line it starts on; headings are structure and are left out
+const readBlocks = (content: string): Array<Block> => {
+  const blocks: Array<Block> = []
+  let current: Block | null = null
+  let inFence = false
+
+  content.split('\n').forEach((raw, index) => {
+    const line = raw.trimEnd()
+
+    if (FENCE.test(line.trim())) {
+      inFence = !inFence
+      current = null
+      return
+    }
+
+    if (inFence || line.trim().length === 0 || HEADING.test(line)) {
+      current = null
+      return
+    }
+
+    if (!current) {
+      current = { line: index + 1, lines: [] }
+      blocks.push(current)
+    }
+
+    current.lines.push(line)
+  })
+
+  return blocks
+}
+
+type BlockKind = 'rule' | 'bullet'
+
+type LintedBlock = {
+  kind: BlockKind | null
+  diagnostics: Array<LintFinding>
+}
+
+const lintDirective = (directive: string, line: number): Array<LintFinding> => {
+  if (FORBIDDEN_CUES.test(directive)) {
+    return [{
+      line,
+      rule: 'forbidden-phrasing',
+      message: 'Forbidden rule should start with "Do not": ' + directive,
+    }]
+  }
+
+  return []
+}
+
+const lintRuleBlock = (block: Block): LintedBlock => {
+  const diagnostics: Array<LintFinding> = []
+  const [first = '', second, ...rest] = block.lines
+
+  diagnostics.push(...lintDirective(first.replace(RULE_LINE, '').trim(), block.line))
+
+  if (second !== undefined) {
+    if (!REASON_LINE.test(second)) {
+      diagnostics.push({ line: block.line + 1, rule: 'block-format', message: 'Expected a Reason: line after Rule:' })
+    } else if (second.replace(REASON_LINE, '').trim().length === 0) {
+      diagnostics.push({ line: block.line + 1, rule: 'empty-reason', message: 'Reason: line is empty' })
+    }
+  }
+
+  if (rest.length > 0) {
+    diagnostics.push({
+      line: block.line + 2,
+      rule: 'block-format',
+      message: 'Rule blocks hold one Rule: line and at most one Reason: line',
+    })
+  }
+
+  return { kind: 'rule', diagnostics }
+}
+
+// bullets may sit in consecutive lines; anything else in the paragraph breaks the concise format
+const lintBulletBlock = (block: Block): LintedBlock => {
+  const diagnostics: Array<LintFinding> = []
+
+  block.lines.forEach((text, offset) => {
+    const line = block.line + offset
+
+    if (!BULLET_LINE.test(text)) {
+      diagnostics.push({ line, rule: 'block-format', message: 'Expected a "- " bullet, got: ' + text.trim() })
+      return
+    }
+
+    diagnostics.push(...lintDirective(text.replace(BULLET_LINE, '').trim(), line))
+  })
+
+  return { kind: 'bullet', diagnostics }
+}
+
+const lintBlock = (block: Block): LintedBlock => {
+  const first = block.lines[0] || ''
+
+  if (RULE_LINE.test(first)) {
+    return lintRuleBlock(block)
+  }
+
+  if (BULLET_LINE.test(first)) {
+    return lintBulletBlock(block)
+  }
+
+  return {
+    kind: null,
+    diagnostics: [{
+      line: block.line,
+      rule: 'block-format',
+      message: 'Expected a Rule: line or a "- " bullet, got: ' + first.trim(),
+    }],
+  }
+}
+
+const lintEmDashes = (content: string): Array<LintFinding> => {
+  let inFence = false
+
+  return content.split('\n').flatMap((line, index): Array<LintFinding> => {
+    if (FENCE.test(line.trim())) {
+      inFence = !inFence
+      return []
+    }
+
+    if (inFence || !line.includes(EM_DASH)) {
+      return []
+    }
+
+    return [{ line: index + 1, rule: 'em-dash', message: 'Replace the em dash with a period or comma' }]
+  })
+}
+
+// check content against the formats format-rules produces, sorted by line
+export const lintContent = (path: string, content: string): Array<LintDiagnostic> => {
+  const linted = readBlocks(content).map((block) => ({ block, ...lintBlock(block) }))
+  const diagnostics = linted.flatMap((entry) => entry.diagnostics)
+
+  // the first formatted block sets the file's mode; blocks of the other kind are reported
+  const mode = linted.find((entry) => entry.kind !== null)?.kind
+  for (const entry of linted) {
+    if (entry.kind !== null && entry.kind !== mode) {
+      diagnostics.push({
+        line: entry.block.line,
+        rule: 'mixed-modes',
+        message: entry.kind === 'rule'
+          ? 'Rule: block in a file of "- " bullets'
+          : '"- " bullet in a file of Rule: blocks',
+      })
+    }
+  }
+
+  diagnostics.push(...lintEmDashes(content))
+
+  return diagnostics
+    .map((diagnostic) => ({ path, ...diagnostic }))
+    .sort((a, b) => a.line - b.line)
+}
+
+// lint every readable file; unreadable files are reported by the caller
+export const lintFiles = (files: Array<InstructionFile>): Array<LintDiagnostic> => {
+  return files.filter((file) => !file.error).flatMap((file) => lintContent(file.path, file.content))
+}
+
+// one "path:line rule-id message" line per diagnostic, like compiler output
+export const formatDiagnostics = (diagnostics: Array<LintDiagnostic>, display: (path: string) => string): string => {
+  return diagnostics
+    .map((d) => display(d.path) + ':' + d.line + '  ' + d.rule + '  ' + d.message)
+    .join('\n')
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'bun:test'
+import { readFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { formatRules } from './format-rules.ts'
+import { parseDirective, parseFormattedRules } from './parse-formatted.ts'
+
+describe('parseDirective', () => {
+  it('treats directives without a cue as obligatory', () => {
+    expect(parseDirective('Use return await when returning promises.')).toEqual({
+      strength: 'obligatory',
+      action: 'use',
+      target: 'return await when returning promises',
+      reason: '',
+    })
+  })
+
+  it('infers strength from each leading cue', () => {
+    expect(parseDirective('Do not use type assertions.').strength).toEqual('forbidden')
+    expect(parseDirective("Don't use type assertions.").strength).toEqual('forbidden')
+    expect(parseDirective('Never use type assertions.').strength).toEqual('forbidden')
+    expect(parseDirective('May use type assertions.').strength).toEqual('permissible')
+    expect(parseDirective('May choose to add a commit body.').strength).toEqual('optional')
+    expect(parseDirective('Ideally provide documentation.').strength).toEqual('supererogatory')
+    expect(parseDirective('Either way is fine to use camelCase.').strength).toEqual('indifferent')
+  })
+
+  it('strips the cue from the action', () => {
+    const rule = parseDirective('May choose to add a commit body.')
+
+    expect(rule.action).toEqual('add')
+    expect(rule.target).toEqual('a commit body')
+  })
+
+  it('uses omit as the action for omissible rules', () => {
+    expect(parseDirective('May omit post-task explanations.')).toEqual({
+      strength: 'omissible',
+      action: 'omit',
+      target: 'post-task explanations',
+      reason: '',
+    })
+  })
+
+  it('reads the forms format-rules gives negative and omitting actions', () => {
+    expect(parseDirective('Avoid type assertions.')).toEqual({
+      strength: 'forbidden',
+      action: 'avoid',
+      target: 'type assertions',
+      reason: '',
+    })
+    expect(parseDirective('Refrain from using any.')).toEqual({
+      strength: 'forbidden',
+      action: 'refrain from',
+      target: 'using any',
+      reason: '',
+    })
+    expect(parseDirective('May choose not to add explanations.')).toEqual({
+      strength: 'omissible',
+      action: 'add',
+      target: 'explanations',
+      reason: '',
+    })
+  })
+})
+
+describe('parseFormattedRules', () => {
+  it('reads Rule and Reason pairs as verbose', () => {
+    const result = parseFormattedRules('Rule: Do not use any.\nReason: Type safety.\n\nRule: Use tabs.\nReason: Habit.\n')
+
+    expect(result.mode).toEqual('verbose')
+    expect(result.rules.map((r) => r.strength)).toEqual(['forbidden', 'obligatory'])
+    expect(result.rules[0]?.reason).toEqual('Type safety')
+  })
+
+  it('detects balanced mode when some reasons are missing', () => {
+    const result = parseFormattedRules('Rule: Do not use any.\nReason: Type safety.\n\nRule: Use tabs.\n')
+
+    expect(result.mode).toEqual('balanced')
+    expect(result.rules[1]?.reason).toEqual('')
+  })
+
+  it('reads bullets as concise', () => {
+    const result = parseFormattedRules('- Do not use any.\n- May use tabs.\n')
+
+    expect(result.mode).toEqual('concise')
+    expect(result.rules.length).toEqual(2)
+  })
+
+  it('reports mixed files', () => {
+    expect(parseFormattedRules('Rule: Use tabs.\n\n- Use spaces.\n').mode).toEqual('mixed')
+  })
+
+  it('collects blocks that are not rules', () => {
+    const result = parseFormattedRules('# Title\n\nSome prose.\n\n- Use tabs.\n')
+
+    expect(result.rules.length).toEqual(1)
+    expect(result.unparsed).toEqual(['# Title', 'Some prose.'])
+  })
+
+  it('returns null mode for content without formatted rules', () => {
+    expect(parseFormattedRules('Just prose.\n').mode).toBeNull()
+  })
+
+  it('round-trips the plugin instructions file through the renderer', async () => {
+    const content = await readFile(join(import.meta.dir, '..', 'instructions', 'instructions.md'), 'utf-8')
+    const parsed = parseFormattedRules(content)
+    const rendered = formatRules(parsed.rules, 'verbose').join('\n\n') + '\n'
+
+    expect(parsed.mode).toEqual('balanced')
+    expect(parsed.unparsed).toEqual([])
+    expect(rendered).toEqual(content)
+  })
+})
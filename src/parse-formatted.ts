@@ -0,0 +1,108 @@
+import type { Mode, ParsedRule, Strength } from './rule-schema.ts'
+import { extractDirective, NEGATING_ACTIONS, splitRuleBlocks } from './rule-text.ts'
+
+type StrengthCue = {
+  pattern: RegExp
+  strength: Strength
+  // action implied by the cue itself, e.g. "may omit" always omits
+  action?: string
+}
+
+// leading cues from DEONTIC_STRENGTHS, longest first so "may choose to" wins over "may"
+const STRENGTH_CUES: Array<StrengthCue> = [
+  { pattern: /^may choose not to\s+/i, strength: 'omissible' },
+  { pattern: /^may choose to\s+/i, strength: 'optional' },
+  { pattern: /^may omit\s+/i, strength: 'omissible', action: 'omit' },
+  { pattern: /^may\s+/i, strength: 'permissible' },
+  { pattern: /^(do not|don't)\s+/i, strength: 'forbidden' },
+  // kept as the action, so the rule renders the way it was written
+  ...NEGATING_ACTIONS.map((action): StrengthCue => ({
+    pattern: new RegExp('^' + action + '\\s+', 'i'),
+    strength: 'forbidden',
+    action,
+  })),
+  { pattern: /^ideally\s+/i, strength: 'supererogatory' },
+  { pattern: /^either way is fine( to| for|:)?\s+/i, strength: 'indifferent' },
+]
+
+const stripPeriod = (text: string): string => {
+  return text.trim().replace(/\.$/, '')
+}
+
+// infer strength, action and target from a directive such as "Do not use type assertions."
+export const parseDirective = (directive: string): ParsedRule => {
+  const text = stripPeriod(directive)
+  const cue = STRENGTH_CUES.find((c) => c.pattern.test(text))
+  const rest = cue ? text.replace(cue.pattern, '') : text
+
+  if (cue && cue.action) {
+    return { strength: cue.strength, action: cue.action, target: rest, reason: '' }
+  }
+
+  const space = rest.indexOf(' ')
+  const action = space === -1 ? rest : rest.slice(0, space)
+  const target = space === -1 ? '' : rest.slice(space + 1).trim()
+
+  return {
+    strength: cue ? cue.strength : 'obligatory',
+    action: action.toLowerCase(),
+    target,
+    reason: '',
+  }
+}
+
+const REASON_LINE = /^reason:\s*/im
+
+type BlockKind = 'rule' | 'bullet' | 'other'
+
+const classifyBlock = (block: string): BlockKind => {
+  if (/^rule:/i.test(block)) return 'rule'
+  if (/^[-*]\s+/.test(block)) return 'bullet'
+  return 'other'
+}
+
+const readReason = (block: string): string => {
+  const line = block.split('\n').find((l) => REASON_LINE.test(l))
+  return line ? stripPeriod(line.replace(REASON_LINE, '')) : ''
+}
+
+export type LocalParseResult = {
+  // detected format of the file, mixed when Rule blocks and bullets are combined, null when it has neither
+  mode: Mode | 'mixed' | null
+  rules: Array<ParsedRule>
+  // blocks that are not formatted rules, such as headings and prose
+  unparsed: Array<string>
+}
+
+const detectMode = (kinds: Array<BlockKind>, rules: Array<ParsedRule>): LocalParseResult['mode'] => {
+  const hasRules = kinds.includes('rule')
+  const hasBullets = kinds.includes('bullet')
+
+  if (hasRules && hasBullets) return 'mixed'
+  if (hasBullets) return 'concise'
+  if (!hasRules) return null
+
+  return rules.every((rule) => rule.reason.length > 0) ? 'verbose' : 'balanced'
+}
+
+// read a file produced by format-rules back into parsed rules without the LLM
+export const parseFormattedRules = (content: string): LocalParseResult => {
+  const rules: Array<ParsedRule> = []
+  const unparsed: Array<string> = []
+  const kinds: Array<BlockKind> = []
+
+  for (const block of splitRuleBlocks(content)) {
+    const kind = classifyBlock(block)
+
+    if (kind === 'other') {
+      unparsed.push(block)
+      continue
+    }
+
+    kinds.push(kind)
+    const rule = parseDirective(extractDirective(block))
+    rules.push(kind === 'rule' ? { ...rule, reason: readReason(block) } : rule)
+  }
+
+  return { mode: detectMode(kinds, rules), rules, unparsed }
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'bun:test'
+import type { InstructionFile } from './discover.ts'
+import { checkProvenance } from './provenance.ts'
+import type { ParsedRule, Source } from './rule-schema.ts'
+
+const file: InstructionFile = {
+  path: '/project/rules.md',
+  content: [
+    '# TypeScript',
+    '',
+    'Never use non-null assertions',
+    'anywhere in the codebase.',
+    '',
+    'Prefer arrow functions.',
+  ].join('\n'),
+}
+
+const rule = (source?: Source): ParsedRule => ({
+  strength: 'forbidden',
+  action: 'use',
+  target: 'non-null assertions',
+  reason: '',
+  source,
+})
+
+describe('checkProvenance', () => {
+  it('accepts a quote found in the given lines', () => {
+    const issues = checkProvenance([
+      rule({ path: file.path, startLine: 6, endLine: 6, quote: 'Prefer arrow functions.' }),
+    ], [file])
+
+    expect(issues).toEqual([])
+  })
+
+  it('accepts a quote wrapped differently than the file', () => {
+    const issues = checkProvenance([
+      rule({ path: file.path, startLine: 3, endLine: 4, quote: 'Never use non-null assertions anywhere' }),
+    ], [file])
+
+    expect(issues).toEqual([])
+  })
+
+  it('ignores rules without a source', () => {
+    expect(checkProvenance([rule()], [])).toEqual([])
+  })
+
+  it('rejects a quote that is not in the file', () => {
+    const issues = checkProvenance([
+      rule({ path: file.path, startLine: 3, endLine: 4, quote: 'Never use type assertions' }),
+    ], [file])
+
+    expect(issues.length).toEqual(1)
+    expect(issues[0]?.path).toEqual(['rules', 0, 'source'])
+    expect(issues[0]?.message.includes('does not appear')).toEqual(true)
+  })
+
+  it('rejects a quote from other lines of the file', () => {
+    const issues = checkProvenance([
+      rule({ path: file.path, startLine: 1, endLine: 2, quote: 'Prefer arrow functions.' }),
+    ], [file])
+
+    expect(issues.length).toEqual(1)
+  })
+
+  it('rejects paths that were not discovered', () => {
+    const issues = checkProvenance([
+      rule({ path: '/project/other.md', startLine: 1, endLine: 1, quote: 'x' }),
+    ], [file])
+
+    expect(issues[0]?.message.includes('not returned by discover-rules')).toEqual(true)
+  })
+
+  it('rejects inverted and out of range line spans', () => {
+    const issues = checkProvenance([
+      rule({ path: file.path, startLine: 4, endLine: 3, quote: 'anywhere' }),
+      rule({ path: file.path, startLine: 6, endLine: 9, quote: 'Prefer' }),
+    ], [file])
+
+    expect(issues.map((issue) => issue.path)).toEqual([['rules', 0, 'source'], ['rules', 1, 'source']])
+    expect(issues[0]?.message.includes('before startLine')).toEqual(true)
+    expect(issues[1]?.message.includes('past the end')).toEqual(true)
+  })
+
+  it('rejects an empty quote', () => {
+    const issues = checkProvenance([rule({ path: file.path, startLine: 1, endLine: 1, quote: '  ' })], [file])
+
+    expect(issues.length).toEqual(1)
+  })
+})
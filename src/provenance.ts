@@ -0,0 +1,51 @@
+import type { InstructionFile } from './discover.ts'
+import type { ParsedRule, Source } from './rule-schema.ts'
+import type { ValidationIssue } from './validate.ts'
+
+const collapse = (text: string): string => {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+const checkSource = (source: Source, files: Map<string, InstructionFile>): string | null => {
+  const file = files.get(source.path)
+  if (!file || file.error) {
+    return 'source path ' + source.path + ' was not returned by discover-rules'
+  }
+
+  if (source.endLine < source.startLine) {
+    return 'source endLine ' + source.endLine + ' is before startLine ' + source.startLine
+  }
+
+  const lines = file.content.split('\n')
+  if (source.endLine > lines.length) {
+    return 'source endLine ' + source.endLine + ' is past the end of ' + source.path + ' (' + lines.length + ' lines)'
+  }
+
+  // whitespace and line wrapping may differ between the quote and the file
+  const quoted = collapse(source.quote)
+  const span = collapse(lines.slice(source.startLine - 1, source.endLine).join('\n'))
+
+  if (quoted.length === 0 || !span.includes(quoted)) {
+    return 'source quote does not appear in lines ' + source.startLine + '-' + source.endLine + ' of ' + source.path
+      + ': "' + source.quote + '"'
+  }
+
+  return null
+}
+
+// verify every rule's source quote against the file content it claims to come from
+export const checkProvenance = (rules: Array<ParsedRule>, files: Array<InstructionFile>): Array<ValidationIssue> => {
+  const byPath = new Map(files.map((file) => [file.path, file]))
+  const issues: Array<ValidationIssue> = []
+
+  rules.forEach((rule, index) => {
+    if (!rule.source) return
+
+    const problem = checkSource(rule.source, byPath)
+    if (problem) {
+      issues.push({ path: ['rules', index, 'source'], message: problem })
+    }
+  })
+
+  return issues
+}
@@ -0,0 +1,107 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { type Fetcher, fetchRemote, isUrl } from './remote.ts'
+
+const ETAG = '"v1"'
+
+// serves /rules.md with an ETag, answering 304 when the client already holds it
+const startServer = () => {
+  let body = 'Never use var.'
+  let requests = 0
+
+  const server = Bun.serve({
+    port: 0,
+    fetch(request) {
+      requests++
+      const url = new URL(request.url)
+      if (url.pathname !== '/rules.md') {
+        return new Response('not found', { status: 404 })
+      }
+
+      const etag = body === 'Never use var.' ? ETAG : '"v2"'
+      if (request.headers.get('if-none-match') === etag) {
+        return new Response(null, { status: 304 })
+      }
+
+      return new Response(body, { headers: { etag } })
+    },
+  })
+
+  return {
+    url: 'http://localhost:' + server.port + '/rules.md',
+    missing: 'http://localhost:' + server.port + '/missing.md',
+    setBody: (next: string) => {
+      body = next
+    },
+    requests: () => requests,
+    stop: () => server.stop(true),
+  }
+}
+
+describe('isUrl', () => {
+  it('recognizes http and https entries only', () => {
+    expect(isUrl('https://example.com/rules.md')).toBe(true)
+    expect(isUrl('http://example.com/rules.md')).toBe(true)
+    expect(isUrl('docs/*.md')).toBe(false)
+    expect(isUrl('~/rules.md')).toBe(false)
+  })
+})
+
+describe('fetchRemote', () => {
+  let server: ReturnType<typeof startServer>
+  let cacheDirectory: string
+
+  beforeAll(async () => {
+    server = startServer()
+    cacheDirectory = await mkdtemp(join(tmpdir(), 'sat-remote-'))
+  })
+
+  afterAll(async () => {
+    server.stop()
+    await rm(cacheDirectory, { recursive: true, force: true })
+  })
+
+  it('fetches, revalidates, and refreshes the cached copy', async () => {
+    const first = await fetchRemote({ url: server.url, cacheDirectory })
+    expect(first).toEqual({ data: { content: 'Never use var.', cache: 'fetched' }, error: null })
+
+    const second = await fetchRemote({ url: server.url, cacheDirectory })
+    expect(second).toEqual({ data: { content: 'Never use var.', cache: 'cached' }, error: null })
+
+    server.setBody('Prefer const.')
+    const third = await fetchRemote({ url: server.url, cacheDirectory })
+    expect(third).toEqual({ data: { content: 'Prefer const.', cache: 'updated' }, error: null })
+    expect(server.requests()).toBe(3)
+  })
+
+  it('serves the cached copy when the fetch fails', async () => {
+    const offline: Fetcher = () => Promise.reject(new Error('network down'))
+
+    const result = await fetchRemote({ url: server.url, cacheDirectory, fetcher: offline })
+
+    expect(result).toEqual({ data: { content: 'Prefer const.', cache: 'stale' }, error: null })
+  })
+
+  it('gives up on a server that does not answer in time', async () => {
+    // settles only when the timeout aborts the request, as fetch does
+    const hanging: Fetcher = (_, init) => {
+      return new Promise((_, reject) => {
+        init.signal.addEventListener('abort', () => reject(init.signal.reason))
+      })
+    }
+
+    const result = await fetchRemote({ url: server.missing, cacheDirectory, fetcher: hanging, timeoutMs: 10 })
+
+    expect(result.data).toBeNull()
+    expect(result.error).toStartWith('Could not fetch ' + server.missing + ': ')
+  })
+
+  it('reports an error when nothing is cached', async () => {
+    const result = await fetchRemote({ url: server.missing, cacheDirectory })
+
+    expect(result.data).toBeNull()
+    expect(result.error).toBe('Could not fetch ' + server.missing + ': HTTP 404')
+  })
+})
@@ -0,0 +1,155 @@
+import { createHash } from 'node:crypto'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { z } from 'zod'
+import { type Result, safe, safeAsync } from './safe.ts'
+
+export const CACHE_DIR = join('.opencode', 'sat-cache')
+
+const URL_PATTERN = /^https?:\/\//i
+
+export const isUrl = (pattern: string): boolean => URL_PATTERN.test(pattern)
+
+export const READ_ONLY_ERROR = 'Remote instruction files are read-only; edit them at their source'
+
+// fetch's signature, so tests can point discovery at a stand-in server or a failing network
+export type Fetcher = (url: string, init: { headers: Record<string, string>; signal: AbortSignal }) => Promise<Response>
+
+// a server slower than this is treated as unreachable, so one host cannot hang discovery
+export const FETCH_TIMEOUT_MS = 10_000
+
+// fetched: no cache entry yet; cached: the server answered 304; updated: the server sent new content;
+// stale: the server could not be reached or failed, so the cached copy was used
+export type CacheStatus = 'fetched' | 'cached' | 'updated' | 'stale'
+
+const CacheEntrySchema = z.object({
+  url: z.string(),
+  etag: z.string().optional(),
+  lastModified: z.string().optional(),
+  content: z.string(),
+})
+
+type CacheEntry = z.infer<typeof CacheEntrySchema>
+
+export type RemoteContent = {
+  content: string
+  cache: CacheStatus
+}
+
+type FetchRemoteOptions = {
+  url: string
+  // directory holding one JSON entry per URL
+  cacheDirectory: string
+  fetcher?: Fetcher
+  // defaults to FETCH_TIMEOUT_MS; covers reading the body too
+  timeoutMs?: number
+}
+
+const cachePath = (cacheDirectory: string, url: string): string => {
+  return join(cacheDirectory, createHash('sha256').update(url).digest('hex') + '.json')
+}
+
+// a missing or unreadable entry only means the URL is fetched without validators
+const readEntry = async (path: string): Promise<CacheEntry | null> => {
+  const readResult = await safeAsync(() => readFile(path, 'utf-8'))
+  if (readResult.error) {
+    return null
+  }
+
+  const parseResult = safe(() => JSON.parse(readResult.data))
+  if (parseResult.error) {
+    return null
+  }
+
+  const entry = CacheEntrySchema.safeParse(parseResult.data)
+  return entry.success ? entry.data : null
+}
+
+const writeEntry = async (cacheDirectory: string, path: string, entry: CacheEntry): Promise<Result<void, string>> => {
+  const mkdirResult = await safeAsync(() => mkdir(cacheDirectory, { recursive: true }))
+  if (mkdirResult.error) {
+    return {
+      data: null,
+      error: 'Could not create ' + cacheDirectory + ': ' + mkdirResult.error.message,
+    }
+  }
+
+  const writeResult = await safeAsync(() => writeFile(path, JSON.stringify(entry, null, 2), 'utf-8'))
+  if (writeResult.error) {
+    return {
+      data: null,
+      error: 'Could not write ' + path + ': ' + writeResult.error.message,
+    }
+  }
+
+  return {
+    data: undefined,
+    error: null,
+  }
+}
+
+const validators = (entry: CacheEntry | null): Record<string, string> => {
+  const headers: Record<string, string> = {}
+  if (entry?.etag) {
+    headers['If-None-Match'] = entry.etag
+  }
+  if (entry?.lastModified) {
+    headers['If-Modified-Since'] = entry.lastModified
+  }
+  return headers
+}
+
+// fetch a remote instruction file, revalidating the cached copy with ETag and Last-Modified
+export const fetchRemote = async (options: FetchRemoteOptions): Promise<Result<RemoteContent, string>> => {
+  const fetcher = options.fetcher || fetch
+  const path = cachePath(options.cacheDirectory, options.url)
+  const entry = await readEntry(path)
+
+  const signal = AbortSignal.timeout(options.timeoutMs ?? FETCH_TIMEOUT_MS)
+  const response = await safeAsync(() => fetcher(options.url, { headers: validators(entry), signal }))
+
+  if (response.data?.status === 304 && entry) {
+    return {
+      data: { content: entry.content, cache: 'cached' },
+      error: null,
+    }
+  }
+
+  if (!response.data?.ok) {
+    if (entry) {
+      return {
+        data: { content: entry.content, cache: 'stale' },
+        error: null,
+      }
+    }
+
+    const reason = response.error ? response.error.message : 'HTTP ' + response.data?.status
+    return {
+      data: null,
+      error: 'Could not fetch ' + options.url + ': ' + reason,
+    }
+  }
+
+  const body = response.data
+  const bodyResult = await safeAsync(() => body.text())
+  if (bodyResult.error) {
+    return entry
+      ? { data: { content: entry.content, cache: 'stale' }, error: null }
+      : { data: null, error: 'Could not fetch ' + options.url + ': ' + bodyResult.error.message }
+  }
+
+  const written = await writeEntry(options.cacheDirectory, path, {
+    url: options.url,
+    etag: body.headers.get('etag') || undefined,
+    lastModified: body.headers.get('last-modified') || undefined,
+    content: bodyResult.data,
+  })
+  if (written.error !== null) {
+    return written
+  }
+
+  return {
+    data: { content: bodyResult.data, cache: entry ? 'updated' : 'fetched' },
+    error: null,
+  }
+}
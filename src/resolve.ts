@@ -1,9 +1,13 @@
 import { discover, readFilePaths } from './discover.ts'
-import type { InstructionFile } from './discover.ts'
+import type { DiscoverOptions, InstructionFile } from './discover.ts'
 import type { Result } from './safe.ts'
 
 // resolve instruction files from explicit paths or opencode.json discovery
-export const resolveFiles = async (directory: string, filesArg?: string): Promise<Result<InstructionFile[], string>> => {
+export const resolveFiles = async (
+  directory: string,
+  filesArg?: string,
+  options?: DiscoverOptions,
+): Promise<Result<InstructionFile[], string>> => {
   if (filesArg) {
     const paths = filesArg.split(',').map((p) => p.trim()).filter((p) => p.length > 0)
     if (paths.length === 0) {
@@ -19,5 +23,5 @@ export const resolveFiles = async (directory: string, filesArg?: string): Promis
     }
   }
 
-  return await discover(directory)
+  return await discover(directory, options)
 }
@@ -1,8 +1,10 @@
 import { describe, expect, it } from 'bun:test'
-import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { mkdir, mkdtemp, readdir, readFile, rm, stat, utimes, writeFile } from 'node:fs/promises'
 import { tmpdir } from 'node:os'
 import { join } from 'node:path'
-import { type FileResult, processFile } from './rewrite.ts'
+import { listSnapshots } from './backup.ts'
+import { type FileResult, processFile, processFiles } from './rewrite.ts'
+import { hashContent } from './stamp.ts'
 
 const RULE_A = [
   'Rule: use consistent whitespace for readability in all source files',
@@ -47,6 +49,19 @@ describe('processFile', () => {
     }
   }
 
+  it('refuses read-only files without writing', async () => {
+    const result = await processFile({
+      file: { path: 'https://example.com/rules.md', content: RULE_A, readOnly: true },
+      rules: [RULE_B],
+    })
+
+    expect(result).toEqual({
+      status: 'readOnly',
+      path: 'https://example.com/rules.md',
+      error: 'Remote instruction files are read-only; edit them at their source',
+    })
+  })
+
   it('returns readError when file has error', async () => {
     const result = await processFile({
       file: { path: '/fake/path.md', content: '', error: 'ENOENT' },
@@ -170,4 +185,269 @@ describe('processFile', () => {
 
     await cleanup()
   })
+
+  it('previews without writing in dry run mode', async () => {
+    const filePath = await setup('old content\n')
+
+    const result = await processFile({
+      file: { path: filePath, content: 'old content\n' },
+      rules: [RULE_A],
+      dryRun: true,
+    })
+
+    expectStatus(result, 'preview')
+    const preview = result as Extract<FileResult, { status: 'preview' }>
+    expect(preview.rulesCount).toBe(1)
+    expect(preview.comparison).toBeDefined()
+    expect(preview.diff).toContain('-old content')
+    expect(preview.diff).toContain('+Rule: use consistent whitespace')
+
+    const written = await readFile(filePath, 'utf-8')
+    expect(written).toBe('old content\n')
+
+    await cleanup()
+  })
+
+  it('snapshots the original content before writing', async () => {
+    const filePath = await setup('old content\n')
+
+    const result = await processFile({
+      file: { path: filePath, content: 'old content\n' },
+      rules: [RULE_A],
+      backupDirectory: dir,
+    })
+
+    expectStatus(result, 'success')
+
+    const snapshots = await listSnapshots(dir)
+    expect(snapshots.length).toBe(1)
+    expect(snapshots[0]?.path).toBe(filePath)
+    expect(snapshots[0]?.content).toBe('old content\n')
+
+    await cleanup()
+  })
+
+  it('does not snapshot in dry run mode', async () => {
+    const filePath = await setup('old content\n')
+
+    await processFile({
+      file: { path: filePath, content: 'old content\n' },
+      rules: [RULE_A],
+      dryRun: true,
+      backupDirectory: dir,
+    })
+
+    expect(await listSnapshots(dir)).toEqual([])
+
+    await cleanup()
+  })
+
+  it('rewrites only the named sections in section mode', async () => {
+    const original = '# Guide\n\nIntro prose.\n\n## Style\n\nAlways use tabs.\n\n```ts\nconst a = 1\n```\n'
+    const filePath = await setup(original)
+
+    const result = await processFile({
+      file: { path: filePath, content: original },
+      sections: [{ heading: 'Style', rules: [RULE_A] }],
+    })
+
+    expectStatus(result, 'success')
+    const success = expectSuccess(result)
+    expect(success.rulesCount).toBe(1)
+    expect(success.sections).toEqual([{ heading: 'Style', rulesCount: 1 }])
+
+    const written = await readFile(filePath, 'utf-8')
+    expect(written).toBe('# Guide\n\nIntro prose.\n\n## Style\n\n' + RULE_A + '\n\n```ts\nconst a = 1\n```\n')
+
+    await cleanup()
+  })
+
+  it('returns sectionError without writing for an unknown heading', async () => {
+    const filePath = await setup('# Guide\n\nIntro.\n')
+
+    const result = await processFile({
+      file: { path: filePath, content: '# Guide\n\nIntro.\n' },
+      sections: [{ heading: 'Missing', rules: [RULE_A] }],
+    })
+
+    expectStatus(result, 'sectionError')
+    expect(await readFile(filePath, 'utf-8')).toBe('# Guide\n\nIntro.\n')
+
+    await cleanup()
+  })
+
+  it('writes prepared content as provided', async () => {
+    const filePath = await setup('old content\n')
+
+    const result = await processFile({
+      file: { path: filePath, content: 'old content\n' },
+      content: '# Kept\n',
+      rulesCount: 0,
+    })
+
+    const success = expectSuccess(result)
+    expect(success.rulesCount).toBe(0)
+    expect(await readFile(filePath, 'utf-8')).toBe('# Kept\n')
+
+    await cleanup()
+  })
+})
+
+describe('processFiles', () => {
+  let dir: string
+
+  // one temp dir holding a.md and b.md, both starting with RULE_A
+  const setup = async () => {
+    dir = await mkdtemp(join(tmpdir(), 'sat-rewrite-batch-'))
+    await writeFile(join(dir, 'a.md'), RULE_A, 'utf-8')
+    await writeFile(join(dir, 'b.md'), RULE_A, 'utf-8')
+    return { a: join(dir, 'a.md'), b: join(dir, 'b.md') }
+  }
+
+  const cleanup = async () => {
+    if (dir) {
+      await rm(dir, { recursive: true, force: true })
+    }
+  }
+
+  it('writes every file with its own content', async () => {
+    const { a, b } = await setup()
+
+    const results = await processFiles({
+      jobs: [
+        { file: { path: a, content: RULE_A }, rules: [RULE_B] },
+        { file: { path: b, content: RULE_A }, rules: [RULE_A, RULE_B] },
+      ],
+    })
+
+    expect(results.map((r) => r.status)).toEqual(['success', 'success'])
+    expect(await readFile(a, 'utf-8')).toBe(RULE_B + '\n')
+    expect(await readFile(b, 'utf-8')).toBe(RULE_A + '\n\n' + RULE_B + '\n')
+    expect((await readdir(dir)).sort()).toEqual(['a.md', 'b.md'])
+
+    await cleanup()
+  })
+
+  it('rolls back files already written when a later file fails', async () => {
+    const { a } = await setup()
+    // renaming over a directory fails after a.md has been renamed into place
+    const blocked = join(dir, 'blocked.md')
+    await mkdir(blocked)
+
+    const results = await processFiles({
+      jobs: [
+        { file: { path: a, content: RULE_A }, rules: [RULE_B] },
+        { file: { path: blocked, content: '' }, rules: [RULE_B] },
+      ],
+    })
+
+    expect(results.map((r) => r.status)).toEqual(['rolledBack', 'writeError'])
+    expect(results[0]).toMatchObject({ error: 'Writing ' + blocked + ' failed' })
+    expect(await readFile(a, 'utf-8')).toBe(RULE_A)
+    expect((await readdir(dir)).sort()).toEqual(['a.md', 'b.md', 'blocked.md'])
+
+    await cleanup()
+  })
+
+  it('writes nothing when staging a file fails', async () => {
+    const { a } = await setup()
+    const missing = join(dir, 'missing', 'c.md')
+
+    const results = await processFiles({
+      jobs: [
+        { file: { path: a, content: RULE_A }, rules: [RULE_B] },
+        { file: { path: missing, content: '' }, rules: [RULE_B] },
+      ],
+    })
+
+    expect(results.map((r) => r.status)).toEqual(['rolledBack', 'writeError'])
+    expect(await readFile(a, 'utf-8')).toBe(RULE_A)
+    expect((await readdir(dir)).sort()).toEqual(['a.md', 'b.md'])
+
+    await cleanup()
+  })
+
+  it('writes nothing after an abort', async () => {
+    const { a, b } = await setup()
+    const controller = new AbortController()
+    controller.abort()
+
+    const results = await processFiles({
+      jobs: [
+        { file: { path: a, content: RULE_A }, rules: [RULE_B] },
+        { file: { path: b, content: RULE_A }, rules: [RULE_B] },
+      ],
+      signal: controller.signal,
+    })
+
+    expect(results).toEqual([
+      { status: 'rolledBack', path: a, error: 'Aborted before writing' },
+      { status: 'rolledBack', path: b, error: 'Aborted before writing' },
+    ])
+    expect(await readFile(a, 'utf-8')).toBe(RULE_A)
+    expect(await readFile(b, 'utf-8')).toBe(RULE_A)
+
+    await cleanup()
+  })
+
+  it('refuses the batch when a file changed since it was read unless forced', async () => {
+    const { a, b } = await setup()
+    const stamps = await Promise.all(
+      [a, b].map(async (path) => ({ hash: hashContent(RULE_A), mtimeMs: (await stat(path)).mtimeMs })),
+    )
+    // an edit with a later mtime, as a teammate's save would leave
+    await writeFile(a, RULE_B, 'utf-8')
+    await utimes(a, new Date(), new Date(Date.now() + 10_000))
+
+    const jobs = [
+      { file: { path: a, content: RULE_A, stamp: stamps[0] }, rules: [RULE_A, RULE_B] },
+      { file: { path: b, content: RULE_A, stamp: stamps[1] }, rules: [RULE_B] },
+    ]
+    const results = await processFiles({ jobs })
+
+    expect(results.map((r) => r.status)).toEqual(['conflict', 'rolledBack'])
+    expect(await readFile(a, 'utf-8')).toBe(RULE_B)
+    expect(await readFile(b, 'utf-8')).toBe(RULE_A)
+
+    const forced = await processFiles({ jobs, force: true })
+
+    expect(forced.map((r) => r.status)).toEqual(['success', 'success'])
+    expect(await readFile(b, 'utf-8')).toBe(RULE_B + '\n')
+
+    await cleanup()
+  })
+
+  it('writes nothing when a file cannot be prepared', async () => {
+    const { a, b } = await setup()
+
+    const results = await processFiles({
+      jobs: [
+        { file: { path: a, content: RULE_A }, rules: [RULE_B] },
+        { file: { path: b, content: RULE_A }, sections: [{ heading: 'Missing', rules: [RULE_B] }] },
+      ],
+    })
+
+    expect(results.map((r) => r.status)).toEqual(['rolledBack', 'sectionError'])
+    expect(results[0]).toMatchObject({ error: 'Could not prepare ' + b })
+    expect(await readFile(a, 'utf-8')).toBe(RULE_A)
+    expect((await readdir(dir)).sort()).toEqual(['a.md', 'b.md'])
+
+    await cleanup()
+  })
+
+  it('refuses read-only files on their own and writes the rest', async () => {
+    const { a } = await setup()
+
+    const results = await processFiles({
+      jobs: [
+        { file: { path: 'https://example.com/rules.md', content: RULE_A, readOnly: true }, rules: [RULE_B] },
+        { file: { path: a, content: RULE_A }, rules: [RULE_B] },
+      ],
+    })
+
+    expect(results.map((r) => r.status)).toEqual(['readOnly', 'success'])
+    expect(await readFile(a, 'utf-8')).toBe(RULE_B + '\n')
+
+    await cleanup()
+  })
 })
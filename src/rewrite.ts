@@ -1,55 +1,334 @@
-import { writeFile } from 'node:fs/promises'
-import { basename } from 'node:path'
+import { randomUUID } from 'node:crypto'
+import { rename, rm, writeFile } from 'node:fs/promises'
+import { basename, dirname, join } from 'node:path'
+import { saveSnapshot } from './backup.ts'
 import { compareBytes, type ComparisonResult } from './compare.ts'
+import { unifiedDiff } from './diff.ts'
 import type { InstructionFile } from './discover.ts'
-import { safeAsync } from './safe.ts'
+import { READ_ONLY_ERROR } from './remote.ts'
+import { type Result, safeAsync } from './safe.ts'
+import { detectChange } from './stamp.ts'
+import { rewriteSections, type SectionCount, type SectionRules } from './sections.ts'
 
 type FileResultSuccess = {
   status: 'success'
   path: string
   rulesCount: number
   comparison: ComparisonResult
+  sections?: Array<SectionCount>
+}
+
+type FileResultPreview = {
+  status: 'preview'
+  path: string
+  rulesCount: number
+  comparison: ComparisonResult
+  sections?: Array<SectionCount>
+  diff: string
 }
 
 type FileResultError = {
-  status: 'readError' | 'writeError'
+  status: 'readError' | 'readOnly' | 'sectionError' | 'conflict' | 'backupError' | 'writeError'
   path: string
   error: string
 }
 
-export type FileResult = FileResultSuccess | FileResultError
+// prepared but left unchanged, or restored, because another file in the batch failed or the session aborted
+type FileResultRolledBack = {
+  status: 'rolledBack'
+  path: string
+  error: string
+}
 
-type ProcessFileOptions = {
-  file: InstructionFile
-  rules: Array<string>
+export type FileResult = FileResultSuccess | FileResultPreview | FileResultError | FileResultRolledBack
+
+// replace the whole file with rules, replace the prose of the named sections only, or write prepared content
+export type FileJob =
+  & { file: InstructionFile }
+  & ({ rules: Array<string> } | { sections: Array<SectionRules> } | { content: string; rulesCount: number })
+
+type WriteOptions = {
+  dryRun?: boolean
+  // project directory to snapshot the original content under before writing
+  backupDirectory?: string
+  // write files that changed on disk since their stamp was taken
+  force?: boolean
 }
 
-export const processFile = async (options: ProcessFileOptions): Promise<FileResult> => {
-  if (options.file.error) {
+type ProcessFileOptions = FileJob & WriteOptions
+
+type CommitOptions = WriteOptions & {
+  // checked before and between renames; an abort rolls back the files already renamed
+  signal?: AbortSignal
+}
+
+type ProcessFilesOptions = CommitOptions & {
+  jobs: Array<FileJob>
+}
+
+type FileContent = {
+  content: string
+  rulesCount: number
+  sections?: Array<SectionCount>
+}
+
+const buildContent = (options: FileJob): Result<FileContent, string> => {
+  if ('rules' in options) {
+    return {
+      data: { content: options.rules.join('\n\n') + '\n', rulesCount: options.rules.length },
+      error: null,
+    }
+  }
+
+  if ('content' in options) {
+    return {
+      data: { content: options.content, rulesCount: options.rulesCount },
+      error: null,
+    }
+  }
+
+  const rewritten = rewriteSections(options.file.content, options.sections)
+  if (rewritten.error !== null) {
+    return rewritten
+  }
+
+  const rulesCount = rewritten.data.counts.reduce((sum, c) => sum + c.rulesCount, 0)
+
+  return {
+    data: { content: rewritten.data.content, rulesCount, sections: rewritten.data.counts },
+    error: null,
+  }
+}
+
+type PreparedFile = {
+  status: 'prepared'
+  file: InstructionFile
+} & FileContent
+
+// build the new content without touching the disk
+const prepareFile = (job: FileJob): FileResult | PreparedFile => {
+  if (job.file.error) {
     return {
       status: 'readError',
-      path: options.file.path,
-      error: options.file.error,
+      path: job.file.path,
+      error: job.file.error,
     }
   }
 
-  const content = options.rules.join('\n\n') + '\n'
+  if (job.file.readOnly) {
+    return {
+      status: 'readOnly',
+      path: job.file.path,
+      error: READ_ONLY_ERROR,
+    }
+  }
 
-  const writeResult = await safeAsync(() => writeFile(options.file.path, content, 'utf-8'))
-  if (writeResult.error) {
+  const built = buildContent(job)
+  if (built.error !== null) {
     return {
-      status: 'writeError',
-      path: options.file.path,
-      error: writeResult.error.message,
+      status: 'sectionError',
+      path: job.file.path,
+      error: built.error,
     }
   }
 
-  const comparison = compareBytes(basename(options.file.path), options.file.content, content)
+  return { status: 'prepared', file: job.file, ...built.data }
+}
+
+const toPreview = (prepared: PreparedFile): FileResult => {
+  const name = basename(prepared.file.path)
+
+  return {
+    status: 'preview',
+    path: prepared.file.path,
+    rulesCount: prepared.rulesCount,
+    comparison: compareBytes(name, prepared.file.content, prepared.content),
+    sections: prepared.sections,
+    diff: unifiedDiff({ path: name, original: prepared.file.content, updated: prepared.content }),
+  }
+}
 
+const toSuccess = (prepared: PreparedFile): FileResult => {
   return {
     status: 'success',
-    path: options.file.path,
-    rulesCount: options.rules.length,
-    comparison,
+    path: prepared.file.path,
+    rulesCount: prepared.rulesCount,
+    comparison: compareBytes(basename(prepared.file.path), prepared.file.content, prepared.content),
+    sections: prepared.sections,
+  }
+}
+
+// hidden sibling of the target, so the rename stays on one file system
+const stagePath = (path: string): string => {
+  return join(dirname(path), '.' + basename(path) + '.' + randomUUID().slice(0, 8) + '.sat-tmp')
+}
+
+const removeStaged = async (paths: Array<string>) => {
+  for (const path of paths) {
+    await safeAsync(() => rm(path, { force: true }))
+  }
+}
+
+// put the original content back into files that were already renamed into place
+const restoreFiles = async (written: Array<PreparedFile>): Promise<Map<string, string>> => {
+  const failures = new Map<string, string>()
+
+  for (const prepared of written) {
+    const restored = await safeAsync(() => writeFile(prepared.file.path, prepared.file.content, 'utf-8'))
+    if (restored.error) {
+      failures.set(prepared.file.path, 'Could not restore the original content: ' + restored.error.message)
+    }
+  }
+
+  return failures
+}
+
+type Failure = {
+  // the files that failed, reported with their own error instead of rolledBack
+  failed: Array<FileResult>
+  reason: string
+  written: Array<PreparedFile>
+}
+
+// the result of each prepared file once the batch has been committed or rolled back
+type Settle = (prepared: PreparedFile) => FileResult
+
+const rollBack = async (failure: Failure): Promise<Settle> => {
+  const restoreFailures = await restoreFiles(failure.written)
+
+  return (prepared) => {
+    const path = prepared.file.path
+
+    const failed = failure.failed.find((result) => result.path === path)
+    if (failed) {
+      return failed
+    }
+
+    const restoreError = restoreFailures.get(path)
+    if (restoreError) {
+      return { status: 'writeError', path, error: restoreError }
+    }
+
+    return { status: 'rolledBack', path, error: failure.reason }
   }
 }
+
+// files whose disk content no longer matches the stamp taken when they were read
+const findChanged = async (files: Array<PreparedFile>): Promise<Array<FileResult>> => {
+  const conflicts: Array<FileResult> = []
+
+  for (const prepared of files) {
+    const stamp = prepared.file.stamp
+    const change = stamp ? await detectChange(prepared.file.path, stamp) : null
+    if (change) {
+      conflicts.push({ status: 'conflict', path: prepared.file.path, error: change + '; pass force to overwrite' })
+    }
+  }
+
+  return conflicts
+}
+
+// check stamps, snapshot, stage every file next to its target, then rename them all into place; any failure or an
+// abort restores the files already renamed, so the batch is written completely or not at all
+const commitFiles = async (files: Array<PreparedFile>, options: CommitOptions): Promise<Settle> => {
+  if (options.signal?.aborted) {
+    return rollBack({ failed: [], reason: 'Aborted before writing', written: [] })
+  }
+
+  if (!options.force) {
+    const conflicts = await findChanged(files)
+    if (conflicts.length > 0) {
+      const paths = conflicts.map((conflict) => conflict.path).join(', ')
+      return rollBack({ failed: conflicts, reason: 'Changed on disk since discovery: ' + paths, written: [] })
+    }
+  }
+
+  if (options.backupDirectory) {
+    for (const prepared of files) {
+      const backup = await saveSnapshot({
+        directory: options.backupDirectory,
+        path: prepared.file.path,
+        content: prepared.file.content,
+      })
+      if (backup.error !== null) {
+        const failed: FileResult = { status: 'backupError', path: prepared.file.path, error: backup.error }
+        return rollBack({ failed: [failed], reason: 'Backup of ' + prepared.file.path + ' failed', written: [] })
+      }
+    }
+  }
+
+  const staged: Array<string> = []
+
+  for (const prepared of files) {
+    const stage = stagePath(prepared.file.path)
+    const stageResult = await safeAsync(() => writeFile(stage, prepared.content, { encoding: 'utf-8', flag: 'wx' }))
+    if (stageResult.error) {
+      await removeStaged(staged)
+      const failed: FileResult = { status: 'writeError', path: prepared.file.path, error: stageResult.error.message }
+      return rollBack({ failed: [failed], reason: 'Staging ' + prepared.file.path + ' failed', written: [] })
+    }
+
+    staged.push(stage)
+  }
+
+  const written: Array<PreparedFile> = []
+
+  for (const [index, prepared] of files.entries()) {
+    const stage = staged[index]
+    if (stage === undefined) break
+
+    if (options.signal?.aborted) {
+      await removeStaged(staged.slice(index))
+      return rollBack({ failed: [], reason: 'Aborted while writing', written })
+    }
+
+    const renameResult = await safeAsync(() => rename(stage, prepared.file.path))
+    if (renameResult.error) {
+      await removeStaged(staged.slice(index))
+      const failed: FileResult = { status: 'writeError', path: prepared.file.path, error: renameResult.error.message }
+      return rollBack({ failed: [failed], reason: 'Writing ' + prepared.file.path + ' failed', written })
+    }
+
+    written.push(prepared)
+  }
+
+  return toSuccess
+}
+
+// rewrite a batch of files together; results keep the order of the jobs
+export const processFiles = async (options: ProcessFilesOptions): Promise<Array<FileResult>> => {
+  const steps = options.jobs.map(prepareFile)
+
+  if (options.dryRun) {
+    return steps.map((step) => step.status === 'prepared' ? toPreview(step) : step)
+  }
+
+  const prepared = steps.flatMap((step) => step.status === 'prepared' ? [step] : [])
+  // read-only files are refused on their own, so a remote entry in "instructions" does not block the local files
+  const failed = steps.flatMap((step) => step.status === 'prepared' || step.status === 'readOnly' ? [] : [step])
+
+  // a file that cannot be prepared fails the batch like one that cannot be written, before anything is staged
+  if (failed.length > 0) {
+    const reason = 'Could not prepare ' + failed.map((result) => result.path).join(', ')
+    const settle = await rollBack({ failed, reason, written: [] })
+    return steps.map((step) => step.status === 'prepared' ? settle(step) : step)
+  }
+
+  const settle = await commitFiles(prepared, options)
+
+  return steps.map((step) => step.status === 'prepared' ? settle(step) : step)
+}
+
+export const processFile = async (options: ProcessFileOptions): Promise<FileResult> => {
+  const step = prepareFile(options)
+  if (step.status !== 'prepared') {
+    return step
+  }
+
+  if (options.dryRun) {
+    return toPreview(step)
+  }
+
+  const settle = await commitFiles([step], options)
+  return settle(step)
+}
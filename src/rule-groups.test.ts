@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'bun:test'
+import { flattenGroups, isSectioned, mapGroups, validateParsedGroups } from './rule-groups.ts'
+
+const RULE = { strength: 'obligatory', action: 'use', target: 'tabs', context: '', reason: '' }
+const OTHER = { strength: 'forbidden', action: 'use', target: 'semicolons', context: '', reason: '' }
+
+describe('validateParsedGroups', () => {
+  it('accepts a flat rules array', () => {
+    const result = validateParsedGroups(JSON.stringify({ rules: [RULE] }))
+
+    expect(result.data).toEqual({ rules: [RULE] })
+  })
+
+  it('accepts rules per file and per section of each file', () => {
+    const perFile = { files: [{ path: 'a.md', rules: [RULE] }] }
+    const perSection = { files: [{ path: 'a.md', sections: [{ heading: 'Style', rules: [RULE] }] }] }
+
+    expect(validateParsedGroups(JSON.stringify(perFile)).data).toEqual(perFile)
+    expect(validateParsedGroups(JSON.stringify(perSection)).data).toEqual(perSection)
+  })
+
+  it('reports schema errors for the shape the keys select', () => {
+    const result = validateParsedGroups(JSON.stringify({ sections: [{ heading: 'Style' }] }))
+
+    expect(result.error).toContain('sections.0.rules')
+  })
+
+  it('rejects invalid JSON', () => {
+    expect(validateParsedGroups('{').error).toBe('Invalid JSON. Return valid JSON.')
+  })
+})
+
+describe('mapGroups', () => {
+  it('maps each list of rules and keeps the files and sections around them', () => {
+    const groups = {
+      files: [
+        { path: 'a.md', sections: [{ heading: '', rules: [RULE] }, { heading: 'Style', rules: [RULE, OTHER] }] },
+      ],
+    }
+
+    expect(mapGroups(groups, (rules) => [rules.length])).toEqual({
+      files: [{ path: 'a.md', sections: [{ heading: '', rules: [1] }, { heading: 'Style', rules: [2] }] }],
+    })
+  })
+})
+
+describe('flattenGroups', () => {
+  it('lists rules in file and section order', () => {
+    const groups = {
+      files: [
+        { path: 'a.md', rules: [OTHER] },
+        { path: 'b.md', rules: [RULE] },
+      ],
+    }
+
+    expect(flattenGroups(groups)).toEqual([OTHER, RULE])
+    expect(flattenGroups({ sections: [{ heading: 'A', rules: [RULE] }, { heading: 'B', rules: [OTHER] }] }))
+      .toEqual([RULE, OTHER])
+  })
+})
+
+describe('isSectioned', () => {
+  it('is true when the rules are grouped by section', () => {
+    expect(isSectioned({ rules: [RULE] })).toBe(false)
+    expect(isSectioned({ files: [{ path: 'a.md', rules: [RULE] }] })).toBe(false)
+    expect(isSectioned({ sections: [{ heading: 'A', rules: [RULE] }] })).toBe(true)
+  })
+})
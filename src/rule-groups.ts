@@ -0,0 +1,81 @@
+import {
+  type ParsedRule,
+  ParseResponseSchema,
+  PerFileParseResponseSchema,
+  PerFileSectionedParseResponseSchema,
+  SectionedParseResponseSchema,
+} from './rule-schema.ts'
+import { type Result, safe } from './safe.ts'
+import { formatValidationError, validateJson } from './validate.ts'
+
+export type SectionGroup<T> = {
+  heading: string
+  rules: Array<T>
+}
+
+export type FileGroup<T> = { path: string; rules: Array<T> } | { path: string; sections: Array<SectionGroup<T>> }
+
+// rules as one list, per section, per file, or per section of each file: the shapes rewrite-rules writes
+export type RuleGroups<T> = { rules: Array<T> } | { sections: Array<SectionGroup<T>> } | { files: Array<FileGroup<T>> }
+
+const hasKey = (value: unknown, key: string): boolean => {
+  return typeof value === 'object' && value !== null && key in value
+}
+
+// a "files" array holds sections when its first file does; the schema then checks the other files
+const holdsSections = (json: unknown): boolean => {
+  if (hasKey(json, 'sections')) return true
+
+  const files: unknown = typeof json === 'object' && json !== null && 'files' in json ? json.files : null
+  return Array.isArray(files) && hasKey(files[0], 'sections')
+}
+
+// validate parsed rules in any of the grouped shapes, picking the schema by the keys present
+export const validateParsedGroups = (json: string): Result<RuleGroups<ParsedRule>, string> => {
+  const parsed = safe(() => JSON.parse(json))
+  const sectioned = parsed.error === null && holdsSections(parsed.data)
+  const perFile = parsed.error === null && hasKey(parsed.data, 'files')
+
+  if (perFile) {
+    const validated = sectioned
+      ? validateJson(json, PerFileSectionedParseResponseSchema)
+      : validateJson(json, PerFileParseResponseSchema)
+    return validated.error === null ? validated : { data: null, error: formatValidationError(validated) }
+  }
+
+  const validated = sectioned
+    ? validateJson(json, SectionedParseResponseSchema)
+    : validateJson(json, ParseResponseSchema)
+  return validated.error === null ? validated : { data: null, error: formatValidationError(validated) }
+}
+
+// every rule in document order: files first, then their sections
+export const flattenGroups = <T>(groups: RuleGroups<T>): Array<T> => {
+  if ('rules' in groups) return groups.rules
+  if ('sections' in groups) return groups.sections.flatMap((section) => section.rules)
+
+  return groups.files.flatMap((file) => 'rules' in file ? file.rules : file.sections.flatMap((s) => s.rules))
+}
+
+const mapSections = <T, U>(sections: Array<SectionGroup<T>>, map: (rules: Array<T>) => Array<U>) => {
+  return sections.map((section) => ({ heading: section.heading, rules: map(section.rules) }))
+}
+
+// replace each list of rules, keeping the files and sections around them
+export const mapGroups = <T, U>(groups: RuleGroups<T>, map: (rules: Array<T>) => Array<U>): RuleGroups<U> => {
+  if ('rules' in groups) return { rules: map(groups.rules) }
+  if ('sections' in groups) return { sections: mapSections(groups.sections, map) }
+
+  return {
+    files: groups.files.map((file) =>
+      'rules' in file
+        ? { path: file.path, rules: map(file.rules) }
+        : { path: file.path, sections: mapSections(file.sections, map) }
+    ),
+  }
+}
+
+export const isSectioned = <T>(groups: RuleGroups<T>): boolean => {
+  if ('sections' in groups) return true
+  return 'files' in groups && groups.files.some((file) => 'sections' in file)
+}
@@ -4,6 +4,8 @@ import {
   ContextSchema,
   ParsedRuleSchema,
   ParsedSchema,
+  PerFileFormatResponseSchema,
+  PerFileSectionedFormatResponseSchema,
   ReasonSchema,
   RuleSchema,
   StrengthSchema,
@@ -160,3 +162,31 @@ describe('RuleSchema', () => {
     expect(RuleSchema.safeParse(null).success).toEqual(false)
   })
 })
+
+describe('PerFileFormatResponseSchema', () => {
+  it('accepts a rules array per file path', () => {
+    const result = PerFileFormatResponseSchema.safeParse({
+      files: [
+        { path: 'AGENTS.md', rules: ['Use early returns'] },
+        { path: 'docs/testing.md', rules: ['Write a test for every bug fix'] },
+      ],
+    })
+
+    expect(result.success).toEqual(true)
+  })
+
+  it('rejects an empty files array and entries without a path', () => {
+    expect(PerFileFormatResponseSchema.safeParse({ files: [] }).success).toEqual(false)
+    expect(PerFileFormatResponseSchema.safeParse({ files: [{ rules: ['Use early returns'] }] }).success).toEqual(false)
+  })
+})
+
+describe('PerFileSectionedFormatResponseSchema', () => {
+  it('accepts sections per file path', () => {
+    const result = PerFileSectionedFormatResponseSchema.safeParse({
+      files: [{ path: 'AGENTS.md', sections: [{ heading: 'Style', rules: ['Use early returns'] }] }],
+    })
+
+    expect(result.success).toEqual(true)
+  })
+})
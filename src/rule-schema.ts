@@ -67,12 +67,29 @@ export const ReasonSchema = z.string()
     ],
   })
 
+export const SourceSchema = z.object({
+  path: z.string().describe('Instruction file path as returned by discover-rules'),
+  startLine: z.number().int().min(1).describe('First line of the quoted text, 1-based'),
+  endLine: z.number().int().min(1).describe('Last line of the quoted text, 1-based'),
+  quote: z.string().describe('Original text the rule was parsed from, copied verbatim from those lines'),
+})
+  .describe('Where in the instruction file this rule came from')
+  .meta({
+    examples: [{
+      path: 'instructions/typescript.md',
+      startLine: 5,
+      endLine: 6,
+      quote: 'Never use non-null assertions (!) anywhere in the codebase.',
+    }],
+  })
+
 export const ParsedRuleSchema = z.object({
   strength: StrengthSchema,
   action: ActionSchema,
   target: TargetSchema,
   context: ContextSchema.optional(),
   reason: ReasonSchema,
+  source: SourceSchema.optional(),
 })
   .describe('Structured breakdown of a rule for AI processing')
   .meta({
@@ -139,9 +156,93 @@ export const FormatResponseSchema = z.object({
   rules: z.array(RuleSchema),
 })
 
+export const SectionRulesSchema = z.object({
+  heading: z.string()
+    .describe('Heading text of the section to rewrite, without # markers. Use "" for content before the first heading'),
+  rules: z.array(RuleSchema),
+})
+  .describe('Formatted rules replacing the prose of one section')
+
+export const SectionedFormatResponseSchema = z.object({
+  sections: z.array(SectionRulesSchema),
+})
+
+export const FileFormatSchema = z.object({
+  path: z.string().describe('Instruction file path as returned by discover-rules'),
+  rules: z.array(RuleSchema),
+})
+  .describe('Formatted rules replacing one instruction file')
+
+export const PerFileFormatResponseSchema = z.object({
+  files: z.array(FileFormatSchema).min(1),
+})
+
+export const FileSectionsSchema = z.object({
+  path: z.string().describe('Instruction file path as returned by discover-rules'),
+  sections: z.array(SectionRulesSchema),
+})
+  .describe('Formatted rules replacing the prose of sections in one instruction file')
+
+export const PerFileSectionedFormatResponseSchema = z.object({
+  files: z.array(FileSectionsSchema).min(1),
+})
+
+export const FileRulesSchema = z.object({
+  path: z.string().describe('Instruction file path as returned by discover-rules'),
+  rules: ParsedSchema,
+})
+  .describe('Parsed rules of one instruction file')
+
+export const CheckRulesSchema = z.object({
+  files: z.array(FileRulesSchema),
+})
+
+export const ParsedSectionSchema = z.object({
+  heading: z.string()
+    .describe('Heading text of the section, without # markers. Use "" for content before the first heading'),
+  rules: ParsedSchema,
+})
+  .describe('Parsed rules of one section')
+
+export const SectionedParseResponseSchema = z.object({
+  sections: z.array(ParsedSectionSchema),
+})
+
+export const PerFileParseResponseSchema = z.object({
+  files: z.array(FileRulesSchema).min(1),
+})
+
+export const FileParsedSectionsSchema = z.object({
+  path: z.string().describe('Instruction file path as returned by discover-rules'),
+  sections: z.array(ParsedSectionSchema),
+})
+  .describe('Parsed rules of the sections of one instruction file')
+
+export const PerFileSectionedParseResponseSchema = z.object({
+  files: z.array(FileParsedSectionsSchema).min(1),
+})
+
+export const ModeSchema = z.enum(['verbose', 'balanced', 'concise'])
+  .describe('Output format for formatted rules')
+
+export const OutputFormatSchema = z.enum(['table', 'markdown', 'json'])
+  .describe('Output format for rewrite and add results')
+
 export type Strength = z.infer<typeof StrengthSchema>
 export type ParsedRule = z.infer<typeof ParsedRuleSchema>
+export type Source = z.infer<typeof SourceSchema>
+export type Mode = z.infer<typeof ModeSchema>
+export type OutputFormat = z.infer<typeof OutputFormatSchema>
+export type FileRules = z.infer<typeof FileRulesSchema>
 
 export const parseSchemaExample = JSON.stringify(z.toJSONSchema(ParseResponseSchema))
 
 export const formatSchemaExample = JSON.stringify(z.toJSONSchema(FormatResponseSchema))
+
+export const checkSchemaExample = JSON.stringify(z.toJSONSchema(CheckRulesSchema))
+
+export const sectionedFormatSchemaExample = JSON.stringify(z.toJSONSchema(SectionedFormatResponseSchema))
+
+export const perFileFormatSchemaExample = JSON.stringify(z.toJSONSchema(PerFileFormatResponseSchema))
+
+export const perFileSectionedFormatSchemaExample = JSON.stringify(z.toJSONSchema(PerFileSectionedFormatResponseSchema))
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'bun:test'
+import { extractDirective, normalizeRule, splitRuleBlockRanges, splitRuleBlocks } from './rule-text.ts'
+
+describe('extractDirective', () => {
+  it('strips the Rule prefix and Reason line', () => {
+    expect(extractDirective('Rule: Do not use type assertions.\nReason: Maintains type safety.')).toEqual(
+      'Do not use type assertions.',
+    )
+  })
+
+  it('strips the bullet prefix', () => {
+    expect(extractDirective('- Use return await.')).toEqual('Use return await.')
+  })
+
+  it('returns plain text unchanged', () => {
+    expect(extractDirective('  Use return await.  ')).toEqual('Use return await.')
+  })
+})
+
+describe('normalizeRule', () => {
+  it('drops mode prefixes, case, and punctuation', () => {
+    expect(normalizeRule('Rule: Do not use `any`.\nReason: Type safety.')).toEqual('do not use any')
+    expect(normalizeRule('- do not use any')).toEqual('do not use any')
+  })
+
+  it('expands contractions', () => {
+    expect(normalizeRule("- Don't use any.")).toEqual('do not use any')
+  })
+})
+
+describe('splitRuleBlocks', () => {
+  it('splits Rule and Reason pairs', () => {
+    const blocks = splitRuleBlocks('Rule: A.\nReason: Because.\n\nRule: B.\n')
+
+    expect(blocks).toEqual(['Rule: A.\nReason: Because.', 'Rule: B.'])
+  })
+
+  it('splits bullets into separate blocks', () => {
+    expect(splitRuleBlocks('- A.\n- B.\n\n- C.\n')).toEqual(['- A.', '- B.', '- C.'])
+  })
+
+  it('keeps prose paragraphs together', () => {
+    expect(splitRuleBlocks('Some prose\nthat wraps.\n\nRule: A.')).toEqual(['Some prose\nthat wraps.', 'Rule: A.'])
+  })
+
+  it('returns no blocks for empty content', () => {
+    expect(splitRuleBlocks('')).toEqual([])
+  })
+})
+
+describe('splitRuleBlockRanges', () => {
+  it('records the line range of each block', () => {
+    const blocks = splitRuleBlockRanges('# Title\n\nRule: A.\nReason: Because.\n- B.\nSome prose\nthat wraps.\n')
+
+    expect(blocks.map((block) => [block.start, block.end])).toEqual([[0, 1], [2, 4], [4, 5], [5, 7]])
+  })
+})
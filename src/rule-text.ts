@@ -0,0 +1,88 @@
+// helpers for reading formatted rule strings produced by format-rules
+
+const RULE_PREFIX = /^rule:\s*/i
+const REASON_PREFIX = /^reason:\s*/i
+const BULLET_PREFIX = /^[-*]\s+/
+
+// directive signals that negate a rule, matching the forbidden signals in NEGATION_SIGNALS
+export const NEGATION_PATTERN = /\b(do not|don't|never|avoid|no)\b/i
+
+// actions that carry the negation of a forbidden rule themselves, so format-rules renders them without "do not"
+export const NEGATING_ACTIONS = ['avoid', 'never', 'refrain from']
+
+export const NEGATING_ACTION = new RegExp('^(' + NEGATING_ACTIONS.join('|') + ')\\b', 'i')
+
+// strip the mode prefix ("Rule: " or "- ") and any Reason line, leaving the directive
+export const extractDirective = (formatted: string): string => {
+  const firstLine = formatted.trim().split('\n')[0] || ''
+  return firstLine.replace(RULE_PREFIX, '').replace(BULLET_PREFIX, '').trim()
+}
+
+// lowercase the directive and drop punctuation so formatting differences between modes do not matter
+export const normalizeRule = (formatted: string): string => {
+  return extractDirective(formatted)
+    .toLowerCase()
+    .replace(/n't\b/g, ' not')
+    .replace(/[^a-z0-9\s]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+export type RuleBlock = {
+  text: string
+  // 0-based index of the first line, and of the line after the last
+  start: number
+  end: number
+}
+
+// split file content into rule blocks with their line ranges: a Rule line with its Reason, a bullet, or a prose
+// paragraph
+export const splitRuleBlockRanges = (content: string): Array<RuleBlock> => {
+  const blocks: Array<RuleBlock> = []
+  let current: Array<string> = []
+  let start = 0
+
+  const flush = (end: number) => {
+    if (current.length > 0) {
+      blocks.push({ text: current.join('\n'), start, end })
+      current = []
+    }
+  }
+
+  for (const [index, raw] of content.split('\n').entries()) {
+    const line = raw.trimEnd()
+
+    if (line.trim().length === 0) {
+      flush(index)
+      continue
+    }
+
+    if (RULE_PREFIX.test(line) || BULLET_PREFIX.test(line)) {
+      flush(index)
+      start = index
+      current.push(line)
+      if (BULLET_PREFIX.test(line)) flush(index + 1)
+      continue
+    }
+
+    if (REASON_PREFIX.test(line) && current.length > 0) {
+      current.push(line)
+      flush(index + 1)
+      continue
+    }
+
+    if (current.length === 0) {
+      start = index
+    }
+
+    current.push(line)
+  }
+
+  flush(content.split('\n').length)
+  return blocks
+}
+
+// split file content into rule blocks: a Rule line with its Reason, a bullet, or a prose paragraph
+export const splitRuleBlocks = (content: string): Array<string> => {
+  return splitRuleBlockRanges(content).map((block) => block.text)
+}
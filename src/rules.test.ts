@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'bun:test'
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  createAddTool,
+  createCheckTool,
+  createConvertTool,
+  createDiscoverTool,
+  createFormatRulesTool,
+  createParseRulesTool,
+  createRewriteTool,
+} from './rules.ts'
+import { createSessionStore } from './session.ts'
+
+const ORIGINAL = 'Never use non-null assertions because they hide bugs.\n'
+
+const PARSED = JSON.stringify({
+  rules: [{ strength: 'forbidden', action: 'use', target: 'non-null assertions', reason: 'they hide bugs' }],
+})
+
+const FORMATTED = JSON.stringify({ rules: ['Rule: Do not use non-null assertions.\nReason: They hide bugs.'] })
+
+describe('rules tools', () => {
+  let dir: string
+  let sent: Array<string>
+
+  // a project listing rules.md, with one tool of each kind sharing a session store
+  const setup = async (content = ORIGINAL) => {
+    dir = await mkdtemp(join(tmpdir(), 'sat-tools-'))
+    sent = []
+    await writeFile(join(dir, 'opencode.json'), JSON.stringify({ instructions: ['rules.md'] }), 'utf-8')
+    await writeFile(join(dir, 'rules.md'), content, 'utf-8')
+
+    // records what the tools post to the chat instead of calling OpenCode
+    const client = {
+      session: {
+        prompt: async (input: { body: { parts: Array<{ text: string }> } }) => {
+          sent.push(input.body.parts.map((part) => part.text).join('\n'))
+        },
+      },
+    }
+    const sessions = createSessionStore()
+    const options = { client, description: '', directory: dir, sessions }
+
+    return {
+      path: join(dir, 'rules.md'),
+      discover: createDiscoverTool(options),
+      parse: createParseRulesTool(options),
+      format: createFormatRulesTool(options),
+      check: createCheckTool(options),
+      rewrite: createRewriteTool(options),
+      add: createAddTool(options),
+      convert: createConvertTool(options),
+    }
+  }
+
+  const context = { sessionID: 'session', abort: new AbortController().signal }
+
+  const cleanup = async () => {
+    if (dir) {
+      await rm(dir, { recursive: true, force: true })
+    }
+  }
+
+  it('passes handles from parse-rules through format-rules to rewrite-rules', async () => {
+    const tools = await setup()
+    await tools.discover.execute({}, context)
+
+    expect(await tools.parse.execute({ rules: PARSED }, context)).toContain('Stored as parse-1.')
+    expect(await tools.format.execute({ rules: 'parse-1', mode: 'verbose' }, context)).toContain('Stored as format-2.')
+    expect(await tools.rewrite.execute({ rules: 'format-2' }, context)).toBe(
+      'Rewrote 1 file(s). Results displayed in chat.',
+    )
+    expect(await readFile(tools.path, 'utf-8')).toBe('Rule: Do not use non-null assertions.\nReason: They hide bugs.\n')
+    expect(sent[0]).toContain('Coverage: 1 of 1 directive sentence(s) map to parsed rules')
+
+    await cleanup()
+  })
+
+  it('refuses a handle passed to the wrong tool', async () => {
+    const tools = await setup()
+    await tools.discover.execute({}, context)
+    await tools.parse.execute({ rules: PARSED }, context)
+
+    expect(await tools.rewrite.execute({ rules: 'parse-1' }, context)).toContain('pass it to format-rules')
+    expect(await readFile(tools.path, 'utf-8')).toBe(ORIGINAL)
+
+    await cleanup()
+  })
+
+  it('refuses to rewrite a file whose coverage was not reported', async () => {
+    const tools = await setup()
+    await tools.discover.execute({}, context)
+
+    expect(await tools.rewrite.execute({ rules: FORMATTED }, context)).toContain('Coverage has not been reported')
+    expect(await readFile(tools.path, 'utf-8')).toBe(ORIGINAL)
+
+    await cleanup()
+  })
+
+  it('checks per-file paths against what discover-rules returned', async () => {
+    const tools = await setup()
+    await tools.discover.execute({}, context)
+    const rules = ['- Do not use non-null assertions.']
+
+    const unknown = JSON.stringify({ files: [{ path: 'missing.md', rules }] })
+    expect(await tools.rewrite.execute({ rules: unknown }, context)).toBe(
+      'Not returned by discover-rules: ' + join(dir, 'missing.md'),
+    )
+
+    const repeated = JSON.stringify({ files: [{ path: 'rules.md', rules }, { path: './rules.md', rules }] })
+    expect(await tools.rewrite.execute({ rules: repeated }, context)).toBe(
+      'Listed more than once in "files": ' + tools.path,
+    )
+
+    await cleanup()
+  })
+
+  it('rewrites a file again after its own write without reporting it as changed', async () => {
+    const tools = await setup()
+    await tools.discover.execute({}, context)
+    await tools.parse.execute({ rules: PARSED }, context)
+    await tools.format.execute({ rules: 'parse-1', mode: 'verbose' }, context)
+    await tools.rewrite.execute({ rules: 'format-2' }, context)
+    await tools.format.execute({ rules: 'parse-1', mode: 'concise' }, context)
+
+    expect(await tools.rewrite.execute({ rules: 'format-3' }, context)).toBe(
+      'Rewrote 1 file(s). Results displayed in chat.',
+    )
+    expect(await readFile(tools.path, 'utf-8')).toBe('- Do not use non-null assertions.\n')
+
+    await cleanup()
+  })
+
+  it('adds to a relative target path twice in one session', async () => {
+    const tools = await setup()
+    await tools.discover.execute({}, context)
+
+    const first = JSON.stringify({ rules: ['- Use early returns.'] })
+    const second = JSON.stringify({ rules: ['- Use strict equality.'] })
+    expect(await tools.add.execute({ rules: first, file: 'rules.md' }, context)).toContain('Added 1 rule(s)')
+    expect(await tools.add.execute({ rules: second, file: 'rules.md' }, context)).toContain('Added 1 rule(s)')
+    expect(await readFile(tools.path, 'utf-8')).toBe(ORIGINAL + '\n- Use early returns.\n\n- Use strict equality.\n')
+
+    await cleanup()
+  })
+
+  it('stores a local parse under a handle that format-rules and check-rules accept', async () => {
+    const tools = await setup('- Do not use non-null assertions.\n- Use early returns.\n')
+    await tools.discover.execute({}, context)
+
+    expect(await tools.parse.execute({ files: 'rules.md' }, context)).toContain('Stored as parse-1.')
+    expect(await tools.check.execute({ rules: 'parse-1' }, context)).toBe(
+      'No conflicts found across 2 rule(s) in 1 file(s).',
+    )
+
+    const formatted = await tools.format.execute({ rules: 'parse-1', mode: 'concise' }, context)
+    expect(formatted).toContain('"path": "' + tools.path + '"')
+    expect(await tools.rewrite.execute({ rules: 'format-2' }, context)).toBe(
+      'Rewrote 1 file(s). Results displayed in chat.',
+    )
+
+    await cleanup()
+  })
+
+  it('lets rewrite-rules write a file convert-rules asked reasons for', async () => {
+    const tools = await setup('- Do not use non-null assertions.\n')
+    await tools.discover.execute({}, context)
+
+    expect(await tools.convert.execute({ mode: 'verbose' }, context)).toContain('These rules have no reason')
+    expect(await tools.rewrite.execute({ rules: FORMATTED, files: 'rules.md' }, context)).toBe(
+      'Rewrote 1 file(s). Results displayed in chat.',
+    )
+
+    await cleanup()
+  })
+})
@@ -1,23 +1,98 @@
 import type { PluginInput } from '@opencode-ai/plugin'
 import { tool } from '@opencode-ai/plugin'
-import { appendRules } from './append.ts'
-import { buildTable, toTableRow } from './compare.ts'
-import type { InstructionFile } from './discover.ts'
+import { basename, relative, resolve } from 'node:path'
+import { appendRules, formatAddReport } from './append.ts'
+import { listSnapshots, restoreSnapshot, type Snapshot } from './backup.ts'
+import { formatTokenUsage, measureTokens, readTokenBudget } from './budget.ts'
+import {
+  buildJsonReport,
+  buildProvenanceTable,
+  buildSectionTable,
+  buildTable,
+  compareBytes,
+  type ProvenanceRow,
+  type TableFormat,
+  type TableRow,
+  toSectionRows,
+  toTableRow,
+} from './compare.ts'
+import { type Conflict, type ConflictKind, findConflicts, type RuleLocation } from './conflicts.ts'
+import { checkConsistency } from './consistency.ts'
+import { checkCoverage, type FileCoverage } from './coverage.ts'
+import { CONVERSION_LABELS, planConversion } from './convert.ts'
+import {
+  type ConsolidationFile,
+  type ConsolidationGroup,
+  countRules,
+  type NearMatch,
+  planConsolidation,
+} from './consolidate.ts'
+import { formatDiffs } from './diff.ts'
+import { type Discovered, type InstructionFile, readFilePaths } from './discover.ts'
+import { checkFidelity } from './fidelity.ts'
+import { formatDirective, formatRules } from './format-rules.ts'
 import { sendResult } from './opencode/notify.ts'
+import { formatDiagnostics, lintFiles } from './lint.ts'
+import { type LocalParseResult, parseFormattedRules } from './parse-formatted.ts'
+import { checkProvenance } from './provenance.ts'
+import { isUrl, READ_ONLY_ERROR } from './remote.ts'
 import { resolveFiles } from './resolve.ts'
-import { type FileResult, processFile } from './rewrite.ts'
-import { FormatResponseSchema, ParseResponseSchema } from './rule-schema.ts'
+import { type FileResult, processFile, processFiles } from './rewrite.ts'
+import { flattenGroups, isSectioned, mapGroups, type RuleGroups, validateParsedGroups } from './rule-groups.ts'
+import {
+  CheckRulesSchema,
+  FormatResponseSchema,
+  ModeSchema,
+  OutputFormatSchema,
+  type OutputFormat,
+  type ParsedRule,
+  ParseResponseSchema,
+  PerFileFormatResponseSchema,
+  PerFileSectionedFormatResponseSchema,
+  SectionedFormatResponseSchema,
+} from './rule-schema.ts'
+import { extractDirective } from './rule-text.ts'
+import { type Result, safe } from './safe.ts'
+import type { SectionRules } from './sections.ts'
+import {
+  describeMissingDiscovery,
+  describeStages,
+  resolveHandle,
+  type SessionState,
+  type SessionStore,
+} from './session.ts'
+import { readStamped } from './stamp.ts'
 import { formatValidationError, validateJson } from './validate.ts'
-import { FORMAT_RULES_PARAM, MODE_PARAM, PARSE_RULES_PARAM } from './descriptions.ts'
+import {
+  CHECK_RULES_PARAM,
+  FORMATTED_HANDLE_PARAM,
+  MODE_PARAM,
+  OUTPUT_PARAM,
+  PARSE_RULES_PARAM,
+  PARSED_HANDLE_PARAM,
+  REWRITE_RULES_PARAM,
+  SECTIONS_PARAM,
+} from './descriptions.ts'
 
 type Client = PluginInput['client']
 
 // discover-rules
 
+// which config layer listed the file or which convention found it, and the cache status of URLs, under its heading
+const formatConfigSource = (file: InstructionFile): string => {
+  const remote = file.remote ? '\n\nRemote, read-only (cache: ' + file.remote.cache + ')' : ''
+
+  if (file.config) {
+    return '\n\nFrom ' + file.config.layer + ' config: ' + file.config.path + remote
+  }
+
+  return file.convention ? '\n\nFound by convention: ' + file.convention : remote
+}
+
 type DiscoverToolOptions = {
   description: string
   directory: string
-  discovered: Set<string>
+  sessions: SessionStore
 }
 
 export const createDiscoverTool = (options: DiscoverToolOptions) => {
@@ -29,7 +104,8 @@ export const createDiscoverTool = (options: DiscoverToolOptions) => {
         .optional()
         .describe('Comma-separated file paths to read instead of discovering from opencode.json'),
     },
-    async execute(args) {
+    async execute(args, context) {
+      const session = options.sessions.get(context.sessionID)
       const resolved = await resolveFiles(options.directory, args.files)
       if (resolved.error !== null) {
         return resolved.error
@@ -40,123 +116,775 @@ export const createDiscoverTool = (options: DiscoverToolOptions) => {
       }
 
       for (const file of resolved.data) {
-        options.discovered.add(file.path)
+        session.discovered.set(file.path, { content: file.content, stamp: file.stamp || null })
       }
+      options.sessions.record(session, 'discover', resolved.data.length)
 
       const sections = resolved.data.map((file: InstructionFile) => {
+        const heading = '## ' + file.path + formatConfigSource(file)
+
         if (file.error) {
-          return '## ' + file.path + '\n\nError: ' + file.error
+          return heading + '\n\nError: ' + file.error
         }
 
         if (file.content.length === 0) {
-          return '## ' + file.path + '\n\n(empty file)'
+          return heading + '\n\n(empty file)'
         }
 
-        return '## ' + file.path + '\n\n' + file.content
+        return heading + '\n\n' + file.content
       })
 
-      return sections.join('\n\n---\n\n')
+      const budget = await readTokenBudget(options.directory)
+      if (budget.error !== null) {
+        return budget.error
+      }
+
+      const usage = measureTokens(resolved.data, budget.data)
+
+      return [...sections, formatTokenUsage(options.directory, usage)].join('\n\n---\n\n')
     },
   })
 }
 
+// the note after a stored output telling the model to pass the handle on instead of the JSON
+const describeHandle = (handle: string, next: string): string => {
+  return 'Stored as ' + handle + '. Pass "' + handle + '" as rules to ' + next + ' instead of repeating the JSON.'
+}
+
 // parse-rules
 
 type ParseRulesToolOptions = {
+  client: Client
   description: string
+  directory: string
+  sessions: SessionStore
+}
+
+const formatLocalSummary = (directory: string, path: string, result: LocalParseResult): string => {
+  const mode = result.mode || 'no formatted rules'
+  const summary = '- ' + relative(directory, path) + ': ' + mode + ', ' + result.rules.length + ' rule(s)'
+
+  if (result.unparsed.length === 0) {
+    return summary
+  }
+
+  return summary + ', skipped ' + result.unparsed.length + ' other block(s): '
+    + result.unparsed.map((block) => JSON.stringify(block.split('\n')[0])).join(', ')
+}
+
+type LocalParseOptions = {
+  directory: string
+  filesArg: string
+  session: SessionState
+  sessions: SessionStore
+}
+
+// parse formatted instruction files locally instead of asking the model to decompose them
+const parseFilesLocally = async (options: LocalParseOptions): Promise<string> => {
+  const { directory, session } = options
+  const resolved = await resolveFiles(directory, options.filesArg)
+  if (resolved.error !== null) {
+    return resolved.error
+  }
+
+  const failed = resolved.data.filter((file) => file.error)
+  if (failed.length > 0) {
+    return failed.map((file) => 'Could not read ' + file.path + ': ' + file.error).join('\n')
+  }
+
+  const parsed = resolved.data.map((file) => ({ path: file.path, result: parseFormattedRules(file.content) }))
+
+  // every block is either a rule or listed in the summary, so local parses cannot drop directives silently
+  for (const entry of parsed) {
+    session.covered.add(entry.path)
+  }
+
+  const files = parsed.map((entry) => ({ path: entry.path, rules: entry.result.rules }))
+  const summary = parsed.map((entry) => formatLocalSummary(directory, entry.path, entry.result)).join('\n')
+  const json = JSON.stringify({ files }, null, 2)
+  const count = files.reduce((sum, file) => sum + file.rules.length, 0)
+  const handle = options.sessions.save(session, { stage: 'parse', json }, count)
+
+  return json + '\n\n' + summary + '\n\n' + describeHandle(handle, 'format-rules or check-rules')
+}
+
+// URLs stay as they are, paths resolve against the project
+const resolveInstructionPath = (directory: string, path: string): string => {
+  return isUrl(path) ? path : resolve(directory, path)
+}
+
+// the files as discover-rules returned them
+const discoveredFiles = (discovered: Discovered): Array<InstructionFile> => {
+  return [...discovered].map(([path, file]) => ({ path, content: file.content }))
+}
+
+// check each rule's source span against the discovered file it quotes, returning an error message on mismatch
+const checkSources = (directory: string, discovered: Discovered, rules: Array<ParsedRule>): string | null => {
+  const resolved = rules.map((rule) => {
+    return rule.source
+      ? { ...rule, source: { ...rule.source, path: resolveInstructionPath(directory, rule.source.path) } }
+      : rule
+  })
+
+  const paths = new Set(resolved.flatMap((rule) => rule.source ? [rule.source.path] : []))
+  if (paths.size === 0) {
+    return null
+  }
+
+  // undiscovered paths are left out so the check reports them
+  const files = discoveredFiles(discovered).filter((file) => paths.has(file.path))
+  const issues = checkProvenance(resolved, files)
+  if (issues.length === 0) {
+    return null
+  }
+
+  return formatValidationError({
+    data: null,
+    error: 'check',
+    check: 'Provenance',
+    issues,
+  })
+}
+
+// check parsed rules against the source text, returning an error message for invented rules
+const checkInvented = (rules: Array<ParsedRule>, sources: Array<string>): string | null => {
+  // nothing to compare against before discover-rules has run
+  if (sources.length === 0) {
+    return null
+  }
+
+  const issues = checkFidelity(rules, sources)
+  if (issues.length === 0) {
+    return null
+  }
+
+  return formatValidationError({
+    data: null,
+    error: 'check',
+    check: 'Fidelity',
+    issues,
+  })
+}
+
+// list directive sentences that no parsed rule maps to, per file
+const formatCoverage = (directory: string, coverage: Array<FileCoverage>): string => {
+  const total = coverage.reduce((sum, file) => sum + file.directives, 0)
+  const uncovered = coverage.reduce((sum, file) => sum + file.uncovered.length, 0)
+  const heading = 'Coverage: ' + (total - uncovered) + ' of ' + total + ' directive sentence(s) map to parsed rules'
+
+  const sections = coverage
+    .filter((file) => file.uncovered.length > 0)
+    .map((file) => {
+      const lines = file.uncovered.map((sentence) => '- line ' + sentence.line + ': ' + sentence.text)
+      return '## ' + relative(directory, file.path) + '\n\n' + lines.join('\n')
+    })
+
+  return [heading, ...sections].join('\n\n')
 }
 
 export const createParseRulesTool = (options: ParseRulesToolOptions) => {
   return tool({
     description: options.description,
     args: {
-      rules: tool.schema.string().describe(PARSE_RULES_PARAM),
+      rules: tool.schema.string().optional().describe(PARSE_RULES_PARAM),
+      files: tool.schema.string().optional().describe(
+        'Comma-separated paths of files already formatted by this plugin to parse locally instead of passing rules',
+      ),
+      input: tool.schema.string().optional().describe(
+        'Original user input the rules were parsed from, when they do not come from discovered files. '
+          + 'Rules are checked against this text instead of the discovered files.',
+      ),
     },
-    async execute(args) {
-      const validated = validateJson(args.rules, ParseResponseSchema)
-      if (validated.error !== null) {
-        return formatValidationError(validated)
+    async execute(args, context) {
+      const session = options.sessions.get(context.sessionID)
+
+      if (args.files) {
+        return await parseFilesLocally({
+          directory: options.directory,
+          filesArg: args.files,
+          session,
+          sessions: options.sessions,
+        })
+      }
+
+      if (!args.rules) {
+        return 'Provide either rules to validate or files to parse locally.'
+      }
+
+      const groups = validateParsedGroups(args.rules)
+      if (groups.error !== null) {
+        return groups.error
+      }
+
+      const rules = flattenGroups(groups.data)
+      const fabricated = checkSources(options.directory, session.discovered, rules)
+      if (fabricated !== null) {
+        return fabricated
+      }
+
+      const files = discoveredFiles(session.discovered)
+      const sources = args.input !== undefined ? [args.input] : files.map((file) => file.content)
+
+      const invented = checkInvented(rules, sources)
+      if (invented !== null) {
+        return invented
+      }
+
+      const json = JSON.stringify(groups.data, null, 2)
+      const handle = options.sessions.save(session, { stage: 'parse', json }, rules.length)
+      const stored = json + '\n\n' + describeHandle(handle, 'format-rules')
+
+      // user input is not rewritten into the discovered files, so there is nothing to cover
+      if (args.input !== undefined || files.length === 0) {
+        return stored
+      }
+
+      const coverage = checkCoverage(files, rules)
+      for (const file of coverage) {
+        session.covered.add(file.path)
+      }
+
+      await sendResult({
+        client: options.client,
+        sessionID: context.sessionID,
+        text: formatCoverage(options.directory, coverage),
+      })
+
+      const uncovered = coverage.reduce((sum, file) => sum + file.uncovered.length, 0)
+      if (uncovered === 0) {
+        return stored + '\n\nCoverage report displayed in chat: every directive sentence maps to a parsed rule.'
       }
 
-      return JSON.stringify(validated.data, null, 2)
+      return stored + '\n\nCoverage report displayed in chat: ' + uncovered
+        + ' directive sentence(s) map to no parsed rule. '
+        + 'Add rules for them or confirm with the user that dropping them is intended before calling rewrite-rules.'
     },
   })
 }
 
 // format-rules
 
+// only a flat list can be appended by add-rules, and sections are written with sections=true
+const describeWriteTool = (formatted: RuleGroups<string>): string => {
+  if ('rules' in formatted) return 'rewrite-rules or add-rules'
+  return isSectioned(formatted) ? 'rewrite-rules with sections=true' : 'rewrite-rules'
+}
+
 type FormatRulesToolOptions = {
   description: string
+  sessions: SessionStore
 }
 
 export const createFormatRulesTool = (options: FormatRulesToolOptions) => {
   return tool({
     description: options.description,
     args: {
-      rules: tool.schema.string().describe(FORMAT_RULES_PARAM),
+      rules: tool.schema.string().describe(PARSED_HANDLE_PARAM),
       mode: tool.schema.string().optional().describe(MODE_PARAM),
     },
-    async execute(args) {
-      const validated = validateJson(args.rules, FormatResponseSchema)
+    async execute(args, context) {
+      const session = options.sessions.get(context.sessionID)
+      const mode = ModeSchema.safeParse(args.mode || 'balanced')
+      if (!mode.success) {
+        return 'Invalid mode "' + args.mode + '". Use verbose, balanced, or concise.'
+      }
+
+      const input = resolveHandle(session, args.rules, 'parse')
+      if (input.error !== null) {
+        return input.error
+      }
+
+      const groups = validateParsedGroups(input.data ? input.data.json : args.rules)
+      if (groups.error !== null) {
+        return groups.error
+      }
+
+      // files and sections stay as they were parsed, so the output is the rules payload rewrite-rules takes
+      const formatted = mapGroups(groups.data, (rules) => formatRules(rules, mode.data))
+      const json = JSON.stringify(formatted, null, 2)
+      const handle = options.sessions.save(
+        session,
+        { stage: 'format', json, parsed: JSON.stringify({ rules: flattenGroups(groups.data) }) },
+        flattenGroups(formatted).length,
+      )
+
+      return json + '\n\n' + describeHandle(handle, describeWriteTool(formatted))
+    },
+  })
+}
+
+// check-rules
+
+type CheckToolOptions = {
+  description: string
+  directory: string
+  sessions: SessionStore
+}
+
+const CONFLICT_LABELS: Record<ConflictKind, string> = {
+  contradiction: 'O(A) vs F(A)',
+  permission: 'P(A) vs F(A)',
+  duplicate: 'Duplicate across files',
+}
+
+const formatLocation = (directory: string, location: RuleLocation): string => {
+  return relative(directory, location.path) + ' rule ' + (location.index + 1) + ' (' + location.rule.strength + ')'
+}
+
+const formatConflict = (directory: string, conflict: Conflict): string => {
+  const rule = conflict.first.rule
+  const subject = [rule.action, rule.target].join(' ') + (rule.context ? ' (' + rule.context + ')' : '')
+
+  return [
+    '- ' + CONFLICT_LABELS[conflict.kind] + ': ' + subject,
+    '  ' + formatLocation(directory, conflict.first),
+    '  ' + formatLocation(directory, conflict.second),
+  ].join('\n')
+}
+
+export const createCheckTool = (options: CheckToolOptions) => {
+  return tool({
+    description: options.description,
+    args: {
+      rules: tool.schema.string().describe(CHECK_RULES_PARAM),
+    },
+    async execute(args, context) {
+      const session = options.sessions.get(context.sessionID)
+      if (session.discovered.size === 0) {
+        return describeMissingDiscovery(session, 'checking')
+      }
+
+      const input = resolveHandle(session, args.rules, 'parse')
+      if (input.error !== null) {
+        return input.error
+      }
+
+      const validated = validateJson(input.data ? input.data.json : args.rules, CheckRulesSchema)
       if (validated.error !== null) {
         return formatValidationError(validated)
       }
 
-      return JSON.stringify(validated.data, null, 2)
+      const files = validated.data.files.map((file) => ({ ...file, path: resolve(options.directory, file.path) }))
+      const unknown = files.filter((file) => !session.discovered.has(file.path))
+      if (unknown.length > 0) {
+        return 'Not returned by discover-rules: ' + unknown.map((file) => file.path).join(', ')
+      }
+
+      const conflicts = findConflicts(files)
+      if (conflicts.length === 0) {
+        const total = files.reduce((sum, file) => sum + file.rules.length, 0)
+        return 'No conflicts found across ' + total + ' rule(s) in ' + files.length + ' file(s).'
+      }
+
+      const lines = conflicts.map((conflict) => formatConflict(options.directory, conflict))
+      return 'Found ' + conflicts.length + ' conflict(s):\n\n' + lines.join('\n\n')
+    },
+  })
+}
+
+// lint-rules
+
+type LintToolOptions = {
+  description: string
+  directory: string
+}
+
+export const createLintTool = (options: LintToolOptions) => {
+  return tool({
+    description: options.description,
+    args: {
+      files: tool.schema.string().optional().describe(
+        'Comma-separated file paths to lint instead of discovering from opencode.json',
+      ),
+    },
+    async execute(args) {
+      const resolved = await resolveFiles(options.directory, args.files)
+      if (resolved.error !== null) {
+        return resolved.error
+      }
+
+      const unreadable = resolved.data
+        .filter((file) => file.error)
+        .map((file) => 'Could not read ' + relative(options.directory, file.path) + ': ' + file.error)
+
+      const diagnostics = lintFiles(resolved.data)
+      const linted = resolved.data.length - unreadable.length
+
+      if (diagnostics.length === 0) {
+        return [...unreadable, 'No problems found in ' + linted + ' file(s).'].join('\n')
+      }
+
+      const files = new Set(diagnostics.map((d) => d.path)).size
+      const report = formatDiagnostics(diagnostics, (path) => relative(options.directory, path))
+
+      return [...unreadable, 'Found ' + diagnostics.length + ' problem(s) in ' + files + ' file(s):', '', report]
+        .join('\n')
     },
   })
 }
 
 // rewrite-rules / add-rules
 
+const PARSED_PARAM = 'Optional validated JSON from parse-rules, or its handle. When provided, each formatted rule is '
+  + 'checked against the strength of the parsed rule at the same index. Rules with a source are shown next to their '
+  + 'original text. Defaults to the parse-rules output a format-rules handle was rendered from.'
+
+type WriteInput = {
+  rules: string
+  parsed?: string
+}
+
+// swap handles for the JSON they hold; a format-rules handle brings the parse-rules output it was rendered from
+const resolveWriteInput = (session: SessionState, rules: string, parsed?: string): Result<WriteInput, string> => {
+  const formatted = resolveHandle(session, rules, 'format')
+  if (formatted.error !== null) {
+    return formatted
+  }
+
+  const resolvedRules = formatted.data ? formatted.data.json : rules
+  if (parsed === undefined) {
+    return { data: { rules: resolvedRules, parsed: formatted.data?.parsed }, error: null }
+  }
+
+  const source = resolveHandle(session, parsed, 'parse')
+  if (source.error !== null) {
+    return source
+  }
+
+  return { data: { rules: resolvedRules, parsed: source.data ? source.data.json : parsed }, error: null }
+}
+
+// check formatted rules against the parsed rules they were rendered from, returning the parsed rules when they match
+const checkAgainstParsed = (parsedJson: string, formatted: Array<string>): Result<Array<ParsedRule>, string> => {
+  const parsed = validateJson(parsedJson, ParseResponseSchema)
+  if (parsed.error !== null) {
+    return { data: null, error: formatValidationError(parsed) }
+  }
+
+  const issues = checkConsistency(parsed.data.rules, formatted)
+  if (issues.length === 0) {
+    return { data: parsed.data.rules, error: null }
+  }
+
+  return {
+    data: null,
+    error: formatValidationError({
+      data: null,
+      error: 'check',
+      check: 'Deontic consistency',
+      issues,
+    }),
+  }
+}
+
+// pair each formatted rule with the source text its parsed rule was taken from
+const toProvenanceRows = (directory: string, parsed: Array<ParsedRule>, formatted: Array<string>): ProvenanceRow[] => {
+  return parsed.flatMap((rule, index) => {
+    const rendered = formatted[index]
+    if (!rule.source || rendered === undefined) return []
+
+    const lines = rule.source.startLine === rule.source.endLine
+      ? String(rule.source.startLine)
+      : rule.source.startLine + '-' + rule.source.endLine
+
+    return [{
+      source: relative(directory, resolve(directory, rule.source.path)) + ':' + lines,
+      original: rule.source.quote,
+      rule: extractDirective(rendered),
+    }]
+  })
+}
+
+// append the original-vs-new table when the parsed rules carry source spans
+const withProvenance = (text: string, rows: ProvenanceRow[], format: TableFormat): string => {
+  const table = buildProvenanceTable(rows, format)
+  return table.length > 0 ? text + '\n\n' + table : text
+}
+
+// markdown renders as a table in the chat UI, so it is the default for posted results
+const parseOutputFormat = (output?: string): Result<OutputFormat, string> => {
+  const parsed = OutputFormatSchema.safeParse(output || 'markdown')
+  if (!parsed.success) {
+    return { data: null, error: 'Invalid output "' + output + '". Use table, markdown, or json.' }
+  }
+
+  return { data: parsed.data, error: null }
+}
+
+const fenceJson = (json: string): string => {
+  return '```json\n' + json + '\n```'
+}
+
+const DRY_RUN_PARAM = 'Preview the change as a unified diff without writing to disk. Default: false.'
+
+const FORCE_PARAM = 'Write even when a file changed on disk since discover-rules read it. Default: false.'
+
+type RewritePayload = { rules: Array<string> } | { sections: Array<SectionRules> }
+
+// validate the rules JSON as a flat array, or as per-section arrays in section-aware mode
+const validateRewritePayload = (json: string, sections?: boolean): Result<RewritePayload, string> => {
+  if (sections) {
+    const validated = validateJson(json, SectionedFormatResponseSchema)
+    if (validated.error !== null) {
+      return { data: null, error: formatValidationError(validated) }
+    }
+
+    return { data: { sections: validated.data.sections }, error: null }
+  }
+
+  const validated = validateJson(json, FormatResponseSchema)
+  if (validated.error !== null) {
+    return { data: null, error: formatValidationError(validated) }
+  }
+
+  return { data: { rules: validated.data.rules }, error: null }
+}
+
+const flattenPayload = (payload: RewritePayload): Array<string> => {
+  return 'rules' in payload ? payload.rules : payload.sections.flatMap((section) => section.rules)
+}
+
+// one payload written to every file, or a payload per discovered file
+type RewritePlan = { shared: RewritePayload } | { files: Array<FilePayload> }
+
+type FilePayload = {
+  path: string
+  payload: RewritePayload
+}
+
+const isPerFile = (json: string): boolean => {
+  const parsed = safe(() => JSON.parse(json))
+  return typeof parsed.data === 'object' && parsed.data !== null && 'files' in parsed.data
+}
+
+// a "files" array maps each file path to its own rules or sections
+const validateRewritePlan = (json: string, sections?: boolean): Result<RewritePlan, string> => {
+  if (!isPerFile(json)) {
+    const payload = validateRewritePayload(json, sections)
+    if (payload.error !== null) {
+      return { data: null, error: payload.error }
+    }
+
+    return { data: { shared: payload.data }, error: null }
+  }
+
+  if (sections) {
+    const validated = validateJson(json, PerFileSectionedFormatResponseSchema)
+    if (validated.error !== null) {
+      return { data: null, error: formatValidationError(validated) }
+    }
+
+    const files = validated.data.files.map((file) => ({ path: file.path, payload: { sections: file.sections } }))
+    return { data: { files }, error: null }
+  }
+
+  const validated = validateJson(json, PerFileFormatResponseSchema)
+  if (validated.error !== null) {
+    return { data: null, error: formatValidationError(validated) }
+  }
+
+  const files = validated.data.files.map((file) => ({ path: file.path, payload: { rules: file.rules } }))
+  return { data: { files }, error: null }
+}
+
+const flattenPlan = (plan: RewritePlan): Array<string> => {
+  return 'shared' in plan ? flattenPayload(plan.shared) : plan.files.flatMap((file) => flattenPayload(file.payload))
+}
+
+type RewriteJob = {
+  file: InstructionFile
+  payload: RewritePayload
+}
+
+type PlanJobsOptions = {
+  directory: string
+  discovered: Discovered
+  plan: RewritePlan
+  filesArg?: string
+}
+
+// stale-read checks compare the disk with what discover-rules returned, not with the read just before writing
+const withDiscoveredStamp = (discovered: Discovered, file: InstructionFile): InstructionFile => {
+  const stamp = discovered.get(file.path)?.stamp
+  return stamp ? { ...file, stamp } : file
+}
+
+// the tools' own writes are not edits made behind the session's back: take the written file as discovered again, so
+// the next write does not refuse it as changed on disk
+const refreshDiscovered = async (discovered: Discovered, results: Array<{ status: string; path: string }>) => {
+  for (const result of results) {
+    if (result.status !== 'success' || !discovered.has(result.path)) continue
+
+    const read = await readStamped(result.path)
+    if (read.error === null) {
+      discovered.set(result.path, read.data)
+    }
+  }
+}
+
+// pair each file with its payload, checking per-file paths against what discover-rules returned
+const planJobs = async (options: PlanJobsOptions): Promise<Result<Array<RewriteJob>, string>> => {
+  const plan = options.plan
+
+  if ('shared' in plan) {
+    const resolved = await resolveFiles(options.directory, options.filesArg)
+    if (resolved.error !== null) {
+      return resolved
+    }
+
+    const files = resolved.data.map((file) => withDiscoveredStamp(options.discovered, file))
+    return { data: files.map((file) => ({ file, payload: plan.shared })), error: null }
+  }
+
+  if (options.filesArg) {
+    return { data: null, error: 'Pass either the files parameter or a "files" array in rules, not both.' }
+  }
+
+  const paths = plan.files.map((file) => resolveInstructionPath(options.directory, file.path))
+
+  const unknown = paths.filter((path) => !options.discovered.has(path))
+  if (unknown.length > 0) {
+    return { data: null, error: 'Not returned by discover-rules: ' + unknown.join(', ') }
+  }
+
+  const repeated = paths.filter((path, index) => paths.indexOf(path) !== index)
+  if (repeated.length > 0) {
+    return { data: null, error: 'Listed more than once in "files": ' + [...new Set(repeated)].join(', ') }
+  }
+
+  // remote files cannot be read from disk; they are refused as read-only when written
+  const files = await readFilePaths(options.directory, paths.filter((path) => !isUrl(path)))
+  const remote = discoveredFiles(options.discovered)
+    .filter((file) => isUrl(file.path))
+    .map((file) => ({ ...file, readOnly: true }))
+  const byPath = new Map([...files, ...remote].map((file) => [file.path, file]))
+
+  return {
+    data: plan.files.flatMap((entry, index) => {
+      const path = paths[index]
+      const file = path === undefined ? undefined : byPath.get(path)
+      return file ? [{ file: withDiscoveredStamp(options.discovered, file), payload: entry.payload }] : []
+    }),
+    error: null,
+  }
+}
+
 type WriteToolOptions = {
   client: Client
   description: string
   directory: string
-  discovered: Set<string>
+  sessions: SessionStore
 }
 
 export const createRewriteTool = (options: WriteToolOptions) => {
   return tool({
     description: options.description,
     args: {
-      rules: tool.schema.string().describe(FORMAT_RULES_PARAM),
+      rules: tool.schema.string().describe(REWRITE_RULES_PARAM),
       files: tool.schema.string().optional().describe(
         'Comma-separated file paths to process instead of discovering from opencode.json',
       ),
       mode: tool.schema.string().optional().describe(MODE_PARAM),
+      parsed: tool.schema.string().optional().describe(PARSED_PARAM),
+      dryRun: tool.schema.boolean().optional().describe(DRY_RUN_PARAM),
+      force: tool.schema.boolean().optional().describe(FORCE_PARAM),
+      sections: tool.schema.boolean().optional().describe(SECTIONS_PARAM),
+      output: tool.schema.string().optional().describe(OUTPUT_PARAM),
     },
     async execute(args, context) {
-      if (options.discovered.size === 0) {
-        return 'Call discover-rules first to read the instruction files before rewriting.'
+      const session = options.sessions.get(context.sessionID)
+      if (session.discovered.size === 0) {
+        return describeMissingDiscovery(session, 'rewriting')
       }
 
-      const validated = validateJson(args.rules, FormatResponseSchema)
-      if (validated.error !== null) {
-        return formatValidationError(validated)
+      const output = parseOutputFormat(args.output)
+      if (output.error !== null) {
+        return output.error
       }
 
-      const resolved = await resolveFiles(options.directory, args.files)
-      if (resolved.error !== null) {
-        return resolved.error
+      const input = resolveWriteInput(session, args.rules, args.parsed)
+      if (input.error !== null) {
+        return input.error
       }
 
-      const fileResults: Array<FileResult> = []
+      const plan = validateRewritePlan(input.data.rules, args.sections)
+      if (plan.error !== null) {
+        return plan.error
+      }
 
-      for (const file of resolved.data) {
-        if (context.abort.aborted) {
-          break
+      const formatted = flattenPlan(plan.data)
+      let provenance: ProvenanceRow[] = []
+
+      if (input.data.parsed) {
+        const checked = checkAgainstParsed(input.data.parsed, formatted)
+        if (checked.error !== null) {
+          return checked.error
         }
 
-        fileResults.push(
-          await processFile({
-            file,
-            rules: validated.data.rules,
-          }),
-        )
+        provenance = toProvenanceRows(options.directory, checked.data, formatted)
+      }
+
+      const jobs = await planJobs({
+        directory: options.directory,
+        discovered: session.discovered,
+        plan: plan.data,
+        filesArg: args.files,
+      })
+      if (jobs.error !== null) {
+        return jobs.error
+      }
+
+      // read-only files are refused per file below, so they need no coverage
+      const unreviewed = jobs.data
+        .map((job) => job.file)
+        .filter((file) => !file.readOnly && !session.covered.has(file.path))
+      if (unreviewed.length > 0) {
+        return 'Coverage has not been reported for ' + unreviewed.map((file) => file.path).join(', ')
+          + '. Call parse-rules with the rules parsed from these files first. ' + describeStages(session)
       }
 
-      const table = buildTable(fileResults.map(toTableRow))
+      // written together: a failure or an abort rolls back every file of the batch
+      const fileResults = await processFiles({
+        jobs: jobs.data.map(({ file, payload }) => ({ file, ...payload })),
+        dryRun: args.dryRun,
+        backupDirectory: options.directory,
+        force: args.force,
+        signal: context.abort,
+      })
+      await refreshDiscovered(session.discovered, fileResults)
+
+      if (output.data === 'json') {
+        const report = buildJsonReport(fileResults)
+
+        await sendResult({
+          client: options.client,
+          sessionID: context.sessionID,
+          text: fenceJson(report),
+        })
+
+        return report
+      }
+
+      const format = output.data
+      const sectionTable = buildSectionTable(fileResults.flatMap(toSectionRows), format)
+      const resultTable = buildTable(fileResults.map(toTableRow), format)
+      const table = withProvenance(
+        sectionTable.length > 0 ? resultTable + '\n\n' + sectionTable : resultTable,
+        provenance,
+        format,
+      )
+
+      if (args.dryRun) {
+        const previews = fileResults.filter((r) => r.status === 'preview')
+
+        await sendResult({
+          client: options.client,
+          sessionID: context.sessionID,
+          text: table + '\n\n' + formatDiffs(previews),
+        })
+
+        return 'Previewed ' + previews.length + ' file(s) without writing. Diff displayed in chat.'
+      }
 
       await sendResult({
         client: options.client,
@@ -164,7 +892,17 @@ export const createRewriteTool = (options: WriteToolOptions) => {
         text: table,
       })
 
-      return 'Rewrote ' + fileResults.length + ' file(s). Results displayed in chat.'
+      if (fileResults.some((r) => r.status === 'conflict')) {
+        return 'Files changed on disk since discover-rules read them, so nothing was written. '
+          + 'Call discover-rules again to work from the current content, or pass force=true to overwrite.'
+      }
+
+      if (fileResults.some((r) => r.status === 'rolledBack')) {
+        return 'Rolled back the rewrite; no instruction file was changed. Results displayed in chat.'
+      }
+
+      const written = fileResults.filter((r) => r.status === 'success').length
+      return 'Rewrote ' + written + ' file(s). Results displayed in chat.'
     },
   })
 }
@@ -175,23 +913,56 @@ export const createAddTool = (options: WriteToolOptions) => {
   return tool({
     description: options.description,
     args: {
-      rules: tool.schema.string().describe(FORMAT_RULES_PARAM),
+      rules: tool.schema.string().describe(FORMATTED_HANDLE_PARAM),
       file: tool.schema.string().optional().describe(
         'File path to append to. If omitted, uses the first discovered instruction file.',
       ),
       mode: tool.schema.string().optional().describe(MODE_PARAM),
+      parsed: tool.schema.string().optional().describe(PARSED_PARAM),
+      dryRun: tool.schema.boolean().optional().describe(DRY_RUN_PARAM),
+      force: tool.schema.boolean().optional().describe(FORCE_PARAM),
+      keepDuplicates: tool.schema.boolean().optional().describe(
+        'Append rules even when they repeat an existing rule in the file. Default: false.',
+      ),
+      output: tool.schema.string().optional().describe(OUTPUT_PARAM),
     },
     async execute(args, context) {
-      if (options.discovered.size === 0) {
-        return 'Call discover-rules first to read the instruction files before adding.'
+      const session = options.sessions.get(context.sessionID)
+      if (session.discovered.size === 0) {
+        return describeMissingDiscovery(session, 'adding')
+      }
+
+      const output = parseOutputFormat(args.output)
+      if (output.error !== null) {
+        return output.error
       }
 
-      const validated = validateJson(args.rules, FormatResponseSchema)
+      const input = resolveWriteInput(session, args.rules, args.parsed)
+      if (input.error !== null) {
+        return input.error
+      }
+
+      const validated = validateJson(input.data.rules, FormatResponseSchema)
       if (validated.error !== null) {
         return formatValidationError(validated)
       }
 
-      let targetPath = args.file
+      let provenance: ProvenanceRow[] = []
+
+      if (input.data.parsed) {
+        const checked = checkAgainstParsed(input.data.parsed, validated.data.rules)
+        if (checked.error !== null) {
+          return checked.error
+        }
+
+        provenance = toProvenanceRows(options.directory, checked.data, validated.data.rules)
+      }
+
+      if (args.file && isUrl(args.file)) {
+        return READ_ONLY_ERROR + ': ' + args.file
+      }
+
+      let targetPath = args.file && resolve(options.directory, args.file)
 
       if (!targetPath) {
         const resolved = await resolveFiles(options.directory)
@@ -199,7 +970,7 @@ export const createAddTool = (options: WriteToolOptions) => {
           return resolved.error
         }
 
-        const first = resolved.data[0]
+        const first = resolved.data.find((file) => !file.readOnly)
         if (!first) {
           return 'No instruction files found in opencode.json'
         }
@@ -210,21 +981,329 @@ export const createAddTool = (options: WriteToolOptions) => {
       const result = await appendRules({
         filePath: targetPath,
         rules: validated.data.rules,
+        dryRun: args.dryRun,
+        keepDuplicates: args.keepDuplicates,
+        backupDirectory: options.directory,
+        stamp: session.discovered.get(targetPath)?.stamp || undefined,
+        force: args.force,
       })
+      await refreshDiscovered(session.discovered, [result])
+
+      if (output.data === 'json') {
+        const report = buildJsonReport([result])
+
+        await sendResult({
+          client: options.client,
+          sessionID: context.sessionID,
+          text: fenceJson(report),
+        })
+
+        return report
+      }
+
+      const format = output.data
+
+      if (result.status === 'preview') {
+        const report = formatAddReport(result.path, result)
+        const table = buildTable([toTableRow(result)], format)
+
+        await sendResult({
+          client: options.client,
+          sessionID: context.sessionID,
+          text: withProvenance(report + '\n\n' + table, provenance, format) + '\n\n' + formatDiffs([result]),
+        })
+
+        return 'Previewed without writing. Diff displayed in chat.\n\n' + report
+      }
 
       if (result.status !== 'success') {
         return result.status + ': ' + result.error
       }
 
-      const message = 'Added ' + result.rulesCount + ' rule(s) to ' + result.path
+      const report = formatAddReport(result.path, result)
+      const table = buildTable([toTableRow(result)], format)
 
       await sendResult({
         client: options.client,
         sessionID: context.sessionID,
-        text: message,
+        text: withProvenance(report + '\n\n' + table, provenance, format),
+      })
+
+      return report
+    },
+  })
+}
+
+// consolidate-rules
+
+const formatGroup = (directory: string, group: ConsolidationGroup): string => {
+  const others = [...new Set(group.members.map((m) => m.path))]
+    .filter((path) => path !== group.canonical)
+    .map((path) => relative(directory, path))
+
+  return '- ' + extractDirective(group.rule) + '\n  kept in ' + relative(directory, group.canonical)
+    + ', removed from ' + others.join(', ')
+}
+
+const formatNearMatch = (directory: string, match: NearMatch): string => {
+  return '- ' + extractDirective(match.first.block) + ' (' + relative(directory, match.first.path) + ')\n  resembles '
+    + extractDirective(match.second.block) + ' (' + relative(directory, match.second.path) + '), '
+    + Math.round(match.similarity * 100) + '% similar'
+}
+
+// near matches are only listed: rules sharing most of their words can still ask for different things
+const formatNearMatches = (directory: string, near: Array<NearMatch>): string => {
+  if (near.length === 0) {
+    return ''
+  }
+
+  return '\n\nSimilar rules, left in place for the user to review:\n'
+    + near.map((match) => formatNearMatch(directory, match)).join('\n')
+}
+
+const consolidationStatus = (file: ConsolidationFile): string => {
+  return file.kept + ' kept, ' + file.removed.length + ' removed'
+}
+
+export const createConsolidateTool = (options: WriteToolOptions) => {
+  return tool({
+    description: options.description,
+    args: {
+      files: tool.schema.string().optional().describe(
+        'Comma-separated file paths to consolidate instead of discovering from opencode.json',
+      ),
+      apply: tool.schema.boolean().optional().describe(
+        'Write the proposed consolidation after the user confirmed it. Default: false, which only proposes.',
+      ),
+    },
+    async execute(args, context) {
+      const session = options.sessions.get(context.sessionID)
+      if (session.discovered.size === 0) {
+        return describeMissingDiscovery(session, 'consolidating')
+      }
+
+      const resolved = await resolveFiles(options.directory, args.files)
+      if (resolved.error !== null) {
+        return resolved.error
+      }
+
+      const plan = planConsolidation(resolved.data)
+      const near = formatNearMatches(options.directory, plan.near)
+      if (plan.groups.length === 0) {
+        return 'No rules repeated across ' + resolved.data.length + ' file(s).' + near
+      }
+
+      const rows: Array<TableRow> = []
+
+      for (const file of plan.files) {
+        if (context.abort.aborted) {
+          break
+        }
+
+        if (file.removed.length === 0) {
+          rows.push({ file: basename(file.path), status: consolidationStatus(file) })
+          continue
+        }
+
+        const result = await processFile({
+          file: { path: file.path, content: file.original, readOnly: file.readOnly },
+          content: file.content,
+          rulesCount: countRules(file.content),
+          dryRun: !args.apply,
+          backupDirectory: options.directory,
+        })
+        await refreshDiscovered(session.discovered, [result])
+
+        const row = toTableRow(result)
+        const succeeded = result.status === 'success' || result.status === 'preview'
+        rows.push(succeeded ? { ...row, status: consolidationStatus(file) } : row)
+      }
+
+      const groups = plan.groups.map((group) => formatGroup(options.directory, group)).join('\n')
+
+      await sendResult({
+        client: options.client,
+        sessionID: context.sessionID,
+        text: buildTable(rows) + '\n\n' + groups + near,
+      })
+
+      if (!args.apply) {
+        return 'Proposed consolidating ' + plan.groups.length + ' repeated rule(s). Results displayed in chat. '
+          + 'Ask the user to confirm, then call consolidate-rules again with apply=true.'
+      }
+
+      return 'Consolidated ' + plan.groups.length + ' repeated rule(s). Results displayed in chat.'
+    },
+  })
+}
+
+// convert-rules
+
+// ask the model to fill in missing reasons, handing back the parsed rules so it does not re-parse the file
+const formatMissingReasons = (directory: string, path: string, parsed: Array<ParsedRule>, missing: Array<number>) => {
+  const rules = missing.flatMap((index) => {
+    const rule = parsed[index]
+    return rule ? ['- ' + formatDirective(rule)] : []
+  })
+
+  return [
+    '## ' + relative(directory, path),
+    'These rules have no reason:',
+    rules.join('\n'),
+    'Fill in every empty reason below, then call format-rules with mode=verbose and rewrite-rules with files='
+    + relative(directory, path) + '.',
+    JSON.stringify({ rules: parsed }, null, 2),
+  ].join('\n\n')
+}
+
+export const createConvertTool = (options: WriteToolOptions) => {
+  return tool({
+    description: options.description,
+    args: {
+      mode: tool.schema.string().describe(MODE_PARAM),
+      files: tool.schema.string().optional().describe(
+        'Comma-separated file paths to convert instead of discovering from opencode.json',
+      ),
+      dryRun: tool.schema.boolean().optional().describe(DRY_RUN_PARAM),
+    },
+    async execute(args, context) {
+      const session = options.sessions.get(context.sessionID)
+      if (session.discovered.size === 0) {
+        return describeMissingDiscovery(session, 'converting')
+      }
+
+      const mode = ModeSchema.safeParse(args.mode)
+      if (!mode.success) {
+        return 'Invalid mode "' + args.mode + '". Use verbose, balanced, or concise.'
+      }
+
+      const resolved = await resolveFiles(options.directory, args.files)
+      if (resolved.error !== null) {
+        return resolved.error
+      }
+
+      const rows: Array<TableRow> = []
+      const fileResults: Array<FileResult> = []
+      const needsReasons: Array<string> = []
+
+      for (const file of resolved.data) {
+        if (context.abort.aborted) {
+          break
+        }
+
+        const plan = file.error ? null : planConversion(file.content, mode.data)
+
+        // a plan is only made for files holding nothing but formatted rules, so every directive was parsed, as in
+        // parseFilesLocally; rewrite-rules then accepts the file with the reasons the model fills in
+        if (plan && (plan.status === 'ready' || plan.status === 'missingReasons')) {
+          session.covered.add(file.path)
+        }
+
+        if (plan && plan.status !== 'ready') {
+          rows.push({ file: basename(file.path), status: CONVERSION_LABELS[plan.status] })
+          if (plan.status === 'missingReasons') {
+            needsReasons.push(formatMissingReasons(options.directory, file.path, plan.parsed, plan.missing))
+          }
+          continue
+        }
+
+        const result = await processFile({
+          file,
+          rules: plan ? plan.rules : [],
+          dryRun: args.dryRun,
+          backupDirectory: options.directory,
+        })
+        await refreshDiscovered(session.discovered, [result])
+
+        fileResults.push(result)
+        rows.push(toTableRow(result))
+      }
+
+      const table = buildTable(rows)
+      const previews = fileResults.filter((r) => r.status === 'preview')
+      const text = args.dryRun && previews.length > 0 ? table + '\n\n' + formatDiffs(previews) : table
+
+      await sendResult({
+        client: options.client,
+        sessionID: context.sessionID,
+        text,
+      })
+
+      const converted = fileResults.filter((r) => r.status === 'success' || r.status === 'preview').length
+      const verb = args.dryRun ? 'Previewed converting ' : 'Converted '
+      const message = verb + converted + ' file(s) to ' + mode.data + '. Results displayed in chat.'
+
+      if (needsReasons.length === 0) {
+        return message
+      }
+
+      return message + '\n\n' + needsReasons.join('\n\n')
+    },
+  })
+}
+
+// undo-rules
+
+type UndoToolOptions = {
+  client: Client
+  description: string
+  directory: string
+}
+
+const formatSnapshotList = (directory: string, snapshots: Array<Snapshot>): string => {
+  const lines = snapshots.map((snapshot) => {
+    const bytes = new TextEncoder().encode(snapshot.content).length
+    return '- ' + snapshot.id + ' (' + relative(directory, snapshot.path) + ', ' + snapshot.createdAt + ', ' + bytes
+      + ' bytes)'
+  })
+
+  return 'Snapshots (newest first):\n' + lines.join('\n')
+}
+
+export const createUndoTool = (options: UndoToolOptions) => {
+  return tool({
+    description: options.description,
+    args: {
+      snapshot: tool.schema.string().optional().describe(
+        'Snapshot id to restore. If omitted, lists available snapshots.',
+      ),
+      file: tool.schema.string().optional().describe('Only list snapshots of this file path'),
+    },
+    async execute(args, context) {
+      if (!args.snapshot) {
+        const snapshots = await listSnapshots(options.directory)
+        const filePath = args.file ? resolve(options.directory, args.file) : null
+        const filtered = filePath ? snapshots.filter((snapshot) => snapshot.path === filePath) : snapshots
+
+        if (filtered.length === 0) {
+          return 'No snapshots found'
+        }
+
+        return formatSnapshotList(options.directory, filtered)
+      }
+
+      const result = await restoreSnapshot({
+        directory: options.directory,
+        id: args.snapshot,
+      })
+
+      if (result.status !== 'success') {
+        return result.status + ': ' + result.error
+      }
+
+      const table = buildTable([{
+        file: basename(result.path),
+        status: 'Restored',
+        comparison: compareBytes(basename(result.path), result.original, result.restored.content),
+      }])
+
+      await sendResult({
+        client: options.client,
+        sessionID: context.sessionID,
+        text: table,
       })
 
-      return 'Added ' + result.rulesCount + ' rule(s). Results displayed in chat.'
+      return 'Restored ' + result.path + ' from snapshot ' + result.restored.id + '. Results displayed in chat.'
     },
   })
 }
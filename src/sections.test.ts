@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'bun:test'
+import { parseSections, rewriteSections } from './sections.ts'
+
+const DOC = [
+  '---',
+  'title: Git',
+  '---',
+  '',
+  '## Git Workflow',
+  '',
+  '### Commit Format',
+  '',
+  'Use conventional commits. Keep the subject',
+  'under 72 characters.',
+  '',
+  '```sh',
+  '# not a heading',
+  'git commit -m "feat: add thing"',
+  '```',
+  '',
+  'Trailing prose.',
+  '',
+  '### Scopes',
+  '',
+  'Use predefined scopes only.',
+  '',
+].join('\n')
+
+describe('parseSections', () => {
+  it('separates front matter from sections', () => {
+    const document = parseSections(DOC)
+
+    expect(document.frontMatter).toEqual(['---', 'title: Git', '---'])
+  })
+
+  it('splits sections at headings', () => {
+    const document = parseSections(DOC)
+
+    expect(document.sections.map((s) => s.heading)).toEqual(['', 'Git Workflow', 'Commit Format', 'Scopes'])
+  })
+
+  it('does not treat comments inside fenced code as headings', () => {
+    const document = parseSections(DOC)
+    const commit = document.sections[2]
+
+    expect(commit?.blocks.map((b) => b.type)).toEqual(['prose', 'code', 'prose'])
+    expect(commit?.blocks[1]?.lines).toContain('# not a heading')
+  })
+
+  it('ignores front matter markers that are never closed', () => {
+    const document = parseSections('---\n## Heading\n')
+
+    expect(document.frontMatter).toEqual([])
+  })
+})
+
+describe('rewriteSections', () => {
+  it('leaves content unchanged when no sections are rewritten', () => {
+    const result = rewriteSections(DOC, [])
+
+    expect(result.data?.content).toEqual(DOC)
+  })
+
+  it('replaces prose in the named section and keeps code blocks', () => {
+    const result = rewriteSections(DOC, [{
+      heading: 'Commit Format',
+      rules: ['- Use conventional commits.', '- Keep the subject under 72 characters.'],
+    }])
+
+    const content = result.data?.content || ''
+    expect(content).toContain(
+      '### Commit Format\n\n- Use conventional commits.\n\n- Keep the subject under 72 characters.\n\n```sh',
+    )
+    expect(content).toContain('# not a heading\ngit commit -m "feat: add thing"\n```\n\nTrailing prose.\n\n### Scopes')
+    expect(content).not.toContain('Use conventional commits. Keep the subject')
+  })
+
+  it('keeps paragraphs without a directive in place', () => {
+    const content = [
+      '## Scopes',
+      '',
+      'Scopes name the package a commit touches.',
+      '',
+      'You must use a predefined scope.',
+      '',
+      '```sh',
+      'git commit -m "fix(cli): flag"',
+      '```',
+      '',
+      'See CONTRIBUTING.md for the full scope list.',
+      '',
+    ].join('\n')
+
+    const result = rewriteSections(content, [{ heading: 'Scopes', rules: ['- Use a predefined scope.'] }])
+
+    expect(result.data?.content).toEqual([
+      '## Scopes',
+      '',
+      'Scopes name the package a commit touches.',
+      '',
+      '- Use a predefined scope.',
+      '',
+      '```sh',
+      'git commit -m "fix(cli): flag"',
+      '```',
+      '',
+      'See CONTRIBUTING.md for the full scope list.',
+      '',
+    ].join('\n'))
+  })
+
+  it('replaces rules this plugin formatted earlier', () => {
+    const content = '## Style\n\n- Prefer tabs.\n- Wrap at 80.\n'
+
+    const result = rewriteSections(content, [{ heading: 'Style', rules: ['- Use spaces.'] }])
+
+    expect(result.data?.content).toEqual('## Style\n\n- Use spaces.\n')
+  })
+
+  it('keeps front matter and untouched sections intact', () => {
+    const result = rewriteSections(DOC, [{ heading: 'Commit Format', rules: ['- Use conventional commits.'] }])
+
+    const content = result.data?.content || ''
+    expect(content.startsWith('---\ntitle: Git\n---\n\n## Git Workflow\n')).toEqual(true)
+    expect(content.endsWith('### Scopes\n\nUse predefined scopes only.\n')).toEqual(true)
+  })
+
+  it('matches headings case-insensitively', () => {
+    const result = rewriteSections(DOC, [{ heading: 'scopes', rules: ['- Use predefined scopes only.'] }])
+
+    expect(result.error).toBeNull()
+    expect(result.data?.content).toContain('### Scopes\n\n- Use predefined scopes only.\n')
+  })
+
+  it('reports per-section rule counts', () => {
+    const result = rewriteSections(DOC, [
+      { heading: 'Commit Format', rules: ['- A.', '- B.'] },
+      { heading: 'Scopes', rules: ['- C.'] },
+    ])
+
+    expect(result.data?.counts).toEqual([
+      { heading: 'Commit Format', rulesCount: 2 },
+      { heading: 'Scopes', rulesCount: 1 },
+    ])
+  })
+
+  it('adds rules to a section that has no prose', () => {
+    const result = rewriteSections(DOC, [{ heading: 'Git Workflow', rules: ['- Follow the workflow.'] }])
+
+    expect(result.data?.content).toContain('## Git Workflow\n\n- Follow the workflow.\n\n### Commit Format')
+  })
+
+  it('returns an error for an unknown heading', () => {
+    const result = rewriteSections(DOC, [{ heading: 'Missing', rules: ['- A.'] }])
+
+    expect(result.data).toBeNull()
+    expect(result.error).toContain('Missing')
+  })
+})
@@ -0,0 +1,218 @@
+import { findDirectiveSentences } from './coverage.ts'
+import { isRestated, textStems } from './fidelity.ts'
+import { parseDirective } from './parse-formatted.ts'
+import type { ParsedRule } from './rule-schema.ts'
+import { extractDirective } from './rule-text.ts'
+import type { Result } from './safe.ts'
+
+type Block = {
+  type: 'prose' | 'code'
+  lines: Array<string>
+}
+
+export type Section = {
+  // heading text without the leading # markers, empty for content before the first heading
+  heading: string
+  headingLine: string | null
+  blocks: Array<Block>
+  raw: Array<string>
+}
+
+export type ParsedDocument = {
+  frontMatter: Array<string>
+  sections: Array<Section>
+}
+
+const HEADING = /^#{1,6}\s+(.*?)\s*#*\s*$/
+const FENCE = /^\s*(```|~~~)/
+
+const newSection = (headingLine: string | null, heading: string): Section => {
+  return { heading, headingLine, blocks: [], raw: headingLine === null ? [] : [headingLine] }
+}
+
+// split leading front matter ("---" fenced yaml) from the rest of the lines
+const splitFrontMatter = (lines: Array<string>): { frontMatter: Array<string>; body: Array<string> } => {
+  if (lines[0] !== '---') {
+    return { frontMatter: [], body: lines }
+  }
+
+  const end = lines.indexOf('---', 1)
+  if (end === -1) {
+    return { frontMatter: [], body: lines }
+  }
+
+  return { frontMatter: lines.slice(0, end + 1), body: lines.slice(end + 1) }
+}
+
+// parse markdown into heading-delimited sections of prose and fenced code blocks
+export const parseSections = (content: string): ParsedDocument => {
+  const { frontMatter, body } = splitFrontMatter(content.split('\n'))
+  const sections: Array<Section> = []
+  let current = newSection(null, '')
+  let fence: string | null = null
+
+  for (const line of body) {
+    const fenceMatch = FENCE.exec(line)
+
+    if (fence !== null) {
+      current.raw.push(line)
+      const last = current.blocks[current.blocks.length - 1]
+      if (last) last.lines.push(line)
+      if (fenceMatch && fenceMatch[1] === fence) fence = null
+      continue
+    }
+
+    if (fenceMatch) {
+      current.raw.push(line)
+      fence = fenceMatch[1] || null
+      current.blocks.push({ type: 'code', lines: [line] })
+      continue
+    }
+
+    const headingMatch = HEADING.exec(line)
+    if (headingMatch) {
+      sections.push(current)
+      current = newSection(line, headingMatch[1] || '')
+      continue
+    }
+
+    current.raw.push(line)
+    const last = current.blocks[current.blocks.length - 1]
+    if (last && last.type === 'prose') {
+      last.lines.push(line)
+    } else {
+      current.blocks.push({ type: 'prose', lines: [line] })
+    }
+  }
+
+  sections.push(current)
+
+  return { frontMatter, sections }
+}
+
+const trimBlank = (lines: Array<string>): Array<string> => {
+  let start = 0
+  let end = lines.length
+  while (start < end && (lines[start] || '').trim().length === 0) start++
+  while (end > start && (lines[end - 1] || '').trim().length === 0) end--
+  return lines.slice(start, end)
+}
+
+// blank-line separated paragraphs of a prose block
+const splitParagraphs = (block: Block): Array<string> => {
+  return block.lines.join('\n').split(/\n\s*\n/).map((paragraph) => paragraph.trim()).filter((p) => p.length > 0)
+}
+
+const FORMATTED_RULE = /^(rule:|[-*]\s)/i
+
+// prose the rules replace: rules already formatted, sentences with a directive signal, or text a new rule restates
+const isRuleBearing = (paragraph: string, rules: Array<ParsedRule>): boolean => {
+  if (FORMATTED_RULE.test(paragraph) || findDirectiveSentences(paragraph).length > 0) {
+    return true
+  }
+
+  const stems = textStems([paragraph])
+  return rules.some((rule) => isRestated(rule, stems))
+}
+
+// rebuild a section with its rule-bearing prose replaced by rules, keeping the heading, code blocks and other prose
+// in place; the rules go where the first rule-bearing paragraph was, or at the end of the section
+const renderSection = (section: Section, rules: Array<string>): Array<string> => {
+  const parsed = rules.map((rule) => parseDirective(extractDirective(rule)))
+  const parts: Array<string> = []
+  let inserted = false
+
+  if (section.headingLine !== null) {
+    parts.push(section.headingLine)
+  }
+
+  for (const block of section.blocks) {
+    if (block.type === 'code') {
+      parts.push(trimBlank(block.lines).join('\n'))
+      continue
+    }
+
+    for (const paragraph of splitParagraphs(block)) {
+      if (!isRuleBearing(paragraph, parsed)) {
+        parts.push(paragraph)
+      } else if (!inserted) {
+        parts.push(...rules)
+        inserted = true
+      }
+    }
+  }
+
+  if (!inserted) {
+    parts.push(...rules)
+  }
+
+  return parts.filter((part) => part.length > 0).join('\n\n').split('\n').concat([''])
+}
+
+const normalizeHeading = (heading: string): string => {
+  return heading.trim().toLowerCase()
+}
+
+export type SectionRules = {
+  heading: string
+  rules: Array<string>
+}
+
+export type SectionCount = {
+  heading: string
+  rulesCount: number
+}
+
+type RewriteSectionsData = {
+  content: string
+  counts: Array<SectionCount>
+}
+
+// rewrite only the sections named in sectionRules, leaving every other line untouched
+export const rewriteSections = (
+  content: string,
+  sectionRules: Array<SectionRules>,
+): Result<RewriteSectionsData, string> => {
+  const document = parseSections(content)
+  const byHeading = new Map<string, Section>()
+
+  for (const section of document.sections) {
+    const key = normalizeHeading(section.heading)
+    if (!byHeading.has(key)) {
+      byHeading.set(key, section)
+    }
+  }
+
+  const replacements = new Map<Section, Array<string>>()
+
+  for (const entry of sectionRules) {
+    const section = byHeading.get(normalizeHeading(entry.heading))
+    if (!section) {
+      return {
+        data: null,
+        error: 'No section with heading "' + entry.heading + '"',
+      }
+    }
+
+    replacements.set(section, [...(replacements.get(section) || []), ...entry.rules])
+  }
+
+  const lines: Array<string> = [...document.frontMatter]
+
+  for (const section of document.sections) {
+    const rules = replacements.get(section)
+    lines.push(...(rules ? renderSection(section, rules) : section.raw))
+  }
+
+  const counts = document.sections
+    .filter((section) => replacements.has(section))
+    .map((section) => ({ heading: section.heading, rulesCount: replacements.get(section)?.length || 0 }))
+
+  return {
+    data: {
+      content: trimBlank(lines).join('\n') + '\n',
+      counts,
+    },
+    error: null,
+  }
+}
@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'bun:test'
+import { createSessionStore, describeMissingDiscovery, describeStages, resolveHandle } from './session.ts'
+
+// a clock the tests move by hand
+const createClock = (start = 1_000_000) => {
+  let time = start
+  return {
+    now: () => time,
+    advance: (ms: number) => {
+      time += ms
+    },
+  }
+}
+
+describe('session store', () => {
+  it('keeps state per session id', () => {
+    const store = createSessionStore()
+
+    store.get('a').discovered.set('/project/rules.md', { content: '', stamp: null })
+
+    expect(store.get('a').discovered.has('/project/rules.md')).toBe(true)
+    expect(store.get('b').discovered.size).toBe(0)
+  })
+
+  it('returns the same state across calls in a session', () => {
+    const store = createSessionStore()
+    const first = store.get('a')
+    first.covered.add('/project/rules.md')
+
+    expect(store.get('a')).toBe(first)
+  })
+
+  it('drops a session idle for longer than the ttl and marks the new state expired', () => {
+    const clock = createClock()
+    const store = createSessionStore({ ttlMs: 1000, now: clock.now })
+    store.get('a').discovered.set('/project/rules.md', { content: '', stamp: null })
+
+    clock.advance(1001)
+    const state = store.get('a')
+
+    expect(state.discovered.size).toBe(0)
+    expect(state.expired).toBe(true)
+    expect(store.get('a').expired).toBe(false)
+  })
+
+  it('keeps a session that stays active', () => {
+    const clock = createClock()
+    const store = createSessionStore({ ttlMs: 1000, now: clock.now })
+    store.get('a').discovered.set('/project/rules.md', { content: '', stamp: null })
+
+    clock.advance(800)
+    store.get('a')
+    clock.advance(800)
+
+    expect(store.get('a').discovered.size).toBe(1)
+  })
+
+  it('sweeps other idle sessions without marking a new one expired', () => {
+    const clock = createClock()
+    const store = createSessionStore({ ttlMs: 1000, now: clock.now })
+    store.get('a').discovered.set('/project/rules.md', { content: '', stamp: null })
+
+    clock.advance(1001)
+
+    expect(store.get('b').expired).toBe(false)
+    expect(store.get('a').expired).toBe(false)
+    expect(store.get('a').discovered.size).toBe(0)
+  })
+
+  it('records when each stage ran', () => {
+    const clock = createClock()
+    const store = createSessionStore({ now: clock.now })
+    const state = store.get('a')
+
+    store.record(state, 'discover', 2)
+
+    expect(state.stages).toEqual({ discover: { at: clock.now(), count: 2 } })
+  })
+})
+
+describe('describeStages', () => {
+  it('says nothing has run in a new session', () => {
+    const store = createSessionStore()
+
+    expect(describeStages(store.get('a'))).toBe('Nothing has run in this session yet.')
+  })
+
+  it('lists the stages in pipeline order with their age', () => {
+    const clock = createClock()
+    const store = createSessionStore({ now: clock.now })
+    const state = store.get('a')
+
+    store.record(state, 'parse', 5)
+    clock.advance(3 * 60_000)
+    store.record(state, 'discover', 2)
+    clock.advance(60_000)
+
+    expect(describeStages(state, clock.now())).toBe(
+      'In this session, discover-rules read 2 file(s) 1 minute ago, parse-rules validated 5 rule(s) 4 minutes ago.',
+    )
+  })
+})
+
+describe('describeMissingDiscovery', () => {
+  it('asks for discover-rules and reports what ran', () => {
+    const clock = createClock()
+    const store = createSessionStore({ now: clock.now })
+    const state = store.get('a')
+    store.record(state, 'format', 3)
+
+    expect(describeMissingDiscovery(state, 'rewriting', clock.now())).toBe(
+      'Call discover-rules first to read the instruction files before rewriting. '
+        + 'In this session, format-rules produced 3 rule(s) just now.',
+    )
+  })
+
+  it('explains that an expired session must discover again', () => {
+    const clock = createClock()
+    const store = createSessionStore({ ttlMs: 1000, now: clock.now })
+    store.get('a')
+    clock.advance(1001)
+
+    expect(describeMissingDiscovery(store.get('a'), 'adding')).toContain('expired')
+  })
+})
+
+describe('handles', () => {
+  const PARSED = '{"rules":[]}'
+
+  it('numbers stored outputs and records their stage', () => {
+    const store = createSessionStore()
+    const state = store.get('a')
+
+    expect(store.save(state, { stage: 'parse', json: PARSED }, 0)).toBe('parse-1')
+    expect(store.save(state, { stage: 'format', json: '{"rules":[]}', parsed: PARSED }, 0)).toBe('format-2')
+    expect(state.stages.format?.count).toBe(0)
+  })
+
+  it('resolves a handle to the output it stored', () => {
+    const store = createSessionStore()
+    const state = store.get('a')
+    const handle = store.save(state, { stage: 'parse', json: PARSED }, 0)
+
+    const resolved = resolveHandle(state, ' ' + handle + ' ', 'parse')
+
+    expect(resolved.error).toBeNull()
+    expect(resolved.data?.json).toBe(PARSED)
+  })
+
+  it('passes literal JSON through', () => {
+    const store = createSessionStore()
+
+    expect(resolveHandle(store.get('a'), PARSED, 'parse')).toEqual({ data: null, error: null })
+  })
+
+  it('rejects a handle from another session', () => {
+    const store = createSessionStore()
+    const handle = store.save(store.get('a'), { stage: 'parse', json: PARSED }, 0)
+
+    expect(resolveHandle(store.get('b'), handle, 'parse').error).toContain('Unknown handle "parse-1"')
+  })
+
+  it('rejects a handle passed to the wrong stage', () => {
+    const store = createSessionStore()
+    const state = store.get('a')
+    const handle = store.save(state, { stage: 'parse', json: PARSED }, 0)
+
+    expect(resolveHandle(state, handle, 'format').error).toBe(
+      'Handle "parse-1" holds parse-rules output; pass it to format-rules or check-rules instead.',
+    )
+  })
+
+  it('rejects a handle stored before discover-rules last ran', () => {
+    const clock = createClock()
+    const store = createSessionStore({ now: clock.now })
+    const state = store.get('a')
+    const handle = store.save(state, { stage: 'parse', json: PARSED }, 0)
+
+    clock.advance(1)
+    store.record(state, 'discover', 1)
+
+    expect(resolveHandle(state, handle, 'parse').error).toContain('stored before discover-rules last ran')
+  })
+
+  it('reports expired handles', () => {
+    const clock = createClock()
+    const store = createSessionStore({ ttlMs: 1000, now: clock.now })
+    store.save(store.get('a'), { stage: 'parse', json: PARSED }, 0)
+    clock.advance(1001)
+
+    expect(resolveHandle(store.get('a'), 'parse-1', 'parse').error).toContain('expired')
+  })
+})
@@ -0,0 +1,186 @@
+import type { Discovered } from './discover.ts'
+import type { Result } from './safe.ts'
+
+export type PipelineStage = 'discover' | 'parse' | 'format'
+
+export type StageRecord = {
+  // Date.now() when the stage last succeeded
+  at: number
+  // files for discover, rules for parse and format
+  count: number
+}
+
+// stages whose validated output is kept under a handle
+export type HandleStage = 'parse' | 'format'
+
+export type StoredOutput = {
+  stage: HandleStage
+  // the validated JSON the tool returned
+  json: string
+  // the parse-rules JSON a format-rules output was rendered from, for the strength check when writing
+  parsed?: string
+}
+
+type StoredHandle = StoredOutput & {
+  // Date.now() when the output was stored
+  at: number
+}
+
+// what the rules pipeline has produced in one OpenCode session
+export type SessionState = {
+  discovered: Discovered
+  // files whose coverage report parse-rules has shown
+  covered: Set<string>
+  stages: Partial<Record<PipelineStage, StageRecord>>
+  // outputs of parse-rules and format-rules by handle, numbered in the order they were stored
+  handles: Map<string, StoredHandle>
+  // Date.now() of the last tool call in the session
+  touchedAt: number
+  // the previous state of this session expired before this call
+  expired: boolean
+}
+
+export type SessionStore = {
+  get: (sessionID: string) => SessionState
+  record: (session: SessionState, stage: PipelineStage, count: number) => void
+  // record the stage and keep its output, returning the handle that refers to it
+  save: (session: SessionState, output: StoredOutput, count: number) => string
+}
+
+type SessionStoreOptions = {
+  // sessions idle for longer are dropped; defaults to SESSION_TTL_MS
+  ttlMs?: number
+  now?: () => number
+}
+
+export const SESSION_TTL_MS = 60 * 60 * 1000
+
+const emptyState = (now: number, expired: boolean): SessionState => {
+  return { discovered: new Map(), covered: new Set(), stages: {}, handles: new Map(), touchedAt: now, expired }
+}
+
+// pipeline state keyed by session id, so discovering in one session does not unlock writes in another
+export const createSessionStore = (options?: SessionStoreOptions): SessionStore => {
+  const ttlMs = options?.ttlMs ?? SESSION_TTL_MS
+  const now = options?.now ?? Date.now
+  const sessions = new Map<string, SessionState>()
+
+  const get = (sessionID: string): SessionState => {
+    const current = now()
+    let expired = false
+
+    // sweep on every call so idle sessions do not pile up for the plugin's lifetime
+    for (const [id, state] of sessions) {
+      if (current - state.touchedAt > ttlMs) {
+        sessions.delete(id)
+        expired = expired || id === sessionID
+      }
+    }
+
+    const existing = sessions.get(sessionID)
+    if (existing) {
+      existing.touchedAt = current
+      existing.expired = false
+      return existing
+    }
+
+    const created = emptyState(current, expired)
+    sessions.set(sessionID, created)
+    return created
+  }
+
+  const record = (session: SessionState, stage: PipelineStage, count: number) => {
+    session.stages[stage] = { at: now(), count }
+  }
+
+  const save = (session: SessionState, output: StoredOutput, count: number): string => {
+    record(session, output.stage, count)
+    const handle = output.stage + '-' + (session.handles.size + 1)
+    session.handles.set(handle, { ...output, at: now() })
+    return handle
+  }
+
+  return { get, record, save }
+}
+
+const formatAge = (ms: number): string => {
+  const minutes = Math.floor(ms / 60_000)
+  if (minutes < 1) return 'just now'
+  return minutes === 1 ? '1 minute ago' : minutes + ' minutes ago'
+}
+
+const STAGE_LABELS: Record<PipelineStage, (count: number) => string> = {
+  discover: (count) => 'discover-rules read ' + count + ' file(s)',
+  parse: (count) => 'parse-rules validated ' + count + ' rule(s)',
+  format: (count) => 'format-rules produced ' + count + ' rule(s)',
+}
+
+// which stages have run in this session and when
+export const describeStages = (session: SessionState, now = Date.now()): string => {
+  const lines = (['discover', 'parse', 'format'] as const).flatMap((stage) => {
+    const record = session.stages[stage]
+    return record ? [STAGE_LABELS[stage](record.count) + ' ' + formatAge(now - record.at)] : []
+  })
+
+  return lines.length > 0 ? 'In this session, ' + lines.join(', ') + '.' : 'Nothing has run in this session yet.'
+}
+
+// guard message for a tool that needs discover-rules to have run in this session
+export const describeMissingDiscovery = (session: SessionState, action: string, now = Date.now()): string => {
+  if (session.expired) {
+    return 'The files discovered in this session expired after a period without activity. '
+      + 'Call discover-rules again before ' + action + '.'
+  }
+
+  return 'Call discover-rules first to read the instruction files before ' + action + '. '
+    + describeStages(session, now)
+}
+
+const HANDLE_PATTERN = /^(parse|format)-\d+$/
+
+// the tool each stage's handle is meant for, so a handle passed out of order names the step that was skipped
+const NEXT_TOOL: Record<HandleStage, string> = {
+  parse: 'format-rules or check-rules',
+  format: 'rewrite-rules or add-rules',
+}
+
+// the stored output a handle refers to, or null when the value is literal JSON; a handle from another stage or
+// another session is an error
+export const resolveHandle = (
+  session: SessionState,
+  value: string,
+  stage: HandleStage,
+): Result<StoredOutput | null, string> => {
+  const handle = value.trim()
+  if (!HANDLE_PATTERN.test(handle)) {
+    return { data: null, error: null }
+  }
+
+  const stored = session.handles.get(handle)
+  if (!stored) {
+    const reason = session.expired
+      ? 'The handles stored in this session expired after a period without activity.'
+      : 'Unknown handle "' + handle + '" in this session. ' + describeStages(session)
+    return { data: null, error: reason }
+  }
+
+  // rediscovering may have read new content, so outputs built from the earlier read are not written
+  const discovered = session.stages.discover
+  if (discovered && discovered.at > stored.at) {
+    return {
+      data: null,
+      error: 'Handle "' + handle + '" was stored before discover-rules last ran. '
+        + 'Call parse-rules again on the current content.',
+    }
+  }
+
+  if (stored.stage !== stage) {
+    return {
+      data: null,
+      error: 'Handle "' + handle + '" holds ' + stored.stage + '-rules output; pass it to '
+        + NEXT_TOOL[stored.stage] + ' instead.',
+    }
+  }
+
+  return { data: stored, error: null }
+}
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it } from 'bun:test'
+import { mkdtemp, rm, stat, utimes, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { detectChange, hashContent, readStamped } from './stamp.ts'
+
+// the stamp discovery would record for path
+const stampOf = async (path: string, content: string) => {
+  return { hash: hashContent(content), mtimeMs: (await stat(path)).mtimeMs }
+}
+
+describe('stamps', () => {
+  let dir = ''
+
+  const setup = async (content: string) => {
+    dir = await mkdtemp(join(tmpdir(), 'sat-stamp-'))
+    const path = join(dir, 'rules.md')
+    await writeFile(path, content, 'utf-8')
+    return path
+  }
+
+  afterEach(async () => {
+    if (dir) {
+      await rm(dir, { recursive: true, force: true })
+      dir = ''
+    }
+  })
+
+  it('reads content with its hash and mtime', async () => {
+    const path = await setup('Use early returns.')
+
+    const result = await readStamped(path)
+
+    expect(result.data?.content).toBe('Use early returns.')
+    expect(result.data?.stamp.hash).toBe(hashContent('Use early returns.'))
+    expect(result.data?.stamp.mtimeMs).toBeGreaterThan(0)
+  })
+
+  it('reports an error for a missing file', async () => {
+    const result = await readStamped(join(tmpdir(), 'sat-stamp-missing', 'rules.md'))
+
+    expect(result.data).toBeNull()
+    expect(result.error).toBeInstanceOf(Error)
+  })
+
+  it('treats an untouched file and a touched file with the same content as unchanged', async () => {
+    const path = await setup('Use early returns.')
+    const stamp = await stampOf(path, 'Use early returns.')
+
+    expect(await detectChange(path, stamp)).toBeNull()
+
+    await utimes(path, new Date(), new Date(Date.now() + 10_000))
+    expect(await detectChange(path, stamp)).toBeNull()
+  })
+
+  it('reports edited and deleted files', async () => {
+    const path = await setup('Use early returns.')
+    const stamp = await stampOf(path, 'Use early returns.')
+
+    await writeFile(path, 'Use guard clauses.', 'utf-8')
+    await utimes(path, new Date(), new Date(Date.now() + 10_000))
+    expect(await detectChange(path, stamp)).toBe(path + ' changed on disk since discover-rules read it')
+
+    await rm(path)
+    expect(await detectChange(path, stamp)).toContain('could not be checked for changes')
+  })
+})
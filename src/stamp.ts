@@ -0,0 +1,60 @@
+import { createHash } from 'node:crypto'
+import { readFile, stat } from 'node:fs/promises'
+import { type Result, safeAsync } from './safe.ts'
+
+// content hash and modification time of a file when it was read
+export type FileStamp = {
+  hash: string
+  mtimeMs: number
+}
+
+export const hashContent = (content: string): string => {
+  return createHash('sha256').update(content).digest('hex')
+}
+
+export type StampedContent = {
+  content: string
+  stamp: FileStamp
+}
+
+// read a file with its stamp; the mtime is taken before reading, so an edit racing the read shows up as a change
+export const readStamped = async (path: string): Promise<Result<StampedContent, Error>> => {
+  const statResult = await safeAsync(() => stat(path))
+  if (statResult.error) {
+    return statResult
+  }
+
+  const readResult = await safeAsync(() => readFile(path, 'utf-8'))
+  if (readResult.error) {
+    return readResult
+  }
+
+  return {
+    data: { content: readResult.data, stamp: { hash: hashContent(readResult.data), mtimeMs: statResult.data.mtimeMs } },
+    error: null,
+  }
+}
+
+// why the file on disk no longer matches the stamp, or null when it is unchanged; an unchanged mtime skips hashing,
+// and a touched file whose content is the same still matches
+export const detectChange = async (path: string, stamp: FileStamp): Promise<string | null> => {
+  const statResult = await safeAsync(() => stat(path))
+  if (statResult.error) {
+    return path + ' could not be checked for changes: ' + statResult.error.message
+  }
+
+  if (statResult.data.mtimeMs === stamp.mtimeMs) {
+    return null
+  }
+
+  const readResult = await safeAsync(() => readFile(path, 'utf-8'))
+  if (readResult.error) {
+    return path + ' could not be checked for changes: ' + readResult.error.message
+  }
+
+  if (hashContent(readResult.data) === stamp.hash) {
+    return null
+  }
+
+  return path + ' changed on disk since discover-rules read it'
+}
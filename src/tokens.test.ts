@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'bun:test'
+import { estimateTokens } from './tokens.ts'
+
+describe('estimateTokens', () => {
+  it('returns 0 for empty or blank text', () => {
+    expect(estimateTokens('')).toEqual(0)
+    expect(estimateTokens(' \n\t')).toEqual(0)
+  })
+
+  it('counts short words and punctuation as one token each', () => {
+    expect(estimateTokens('Do not use it.')).toEqual(5)
+  })
+
+  it('splits long words', () => {
+    expect(estimateTokens('internationalization')).toEqual(4)
+  })
+
+  it('groups digits in threes', () => {
+    expect(estimateTokens('1234567')).toEqual(3)
+  })
+
+  it('stays close to the four characters per token rule of thumb for prose', () => {
+    const prose = 'Never add limit() to insert, delete, or returning operations. Drizzle generates invalid SQL '
+      + 'when limit is applied to these statements.'
+
+    const ratio = estimateTokens(prose) / (prose.length / 4)
+    expect(ratio).toBeGreaterThan(0.75)
+    expect(ratio).toBeLessThan(1.5)
+  })
+})
@@ -0,0 +1,17 @@
+// pieces a BPE tokenizer tends to split text into: letter runs, groups of up to three digits, and single symbols
+const PIECE_PATTERN = /[a-z]+|[0-9]{1,3}|[^\sa-z0-9]/gi
+
+// common English words are single tokens; longer letter runs split roughly every five letters
+const LETTERS_PER_TOKEN = 5
+
+// approximate the context tokens the text costs without shipping a model tokenizer
+export const estimateTokens = (text: string): number => {
+  let tokens = 0
+
+  for (const match of text.matchAll(PIECE_PATTERN)) {
+    const piece = match[0]
+    tokens += /^[a-z]/i.test(piece) ? Math.ceil(piece.length / LETTERS_PER_TOKEN) : 1
+  }
+
+  return tokens
+}
@@ -77,4 +77,17 @@ describe('formatValidationError', () => {
     const result = formatValidationError(validation as Parameters<typeof formatValidationError>[0])
     expect(result.includes('  - ')).toEqual(true)
   })
+
+  it('labels check errors with the check name', () => {
+    const result = formatValidationError({
+      data: null,
+      error: 'check',
+      check: 'Deontic consistency',
+      issues: [{ path: ['rules', 0], message: 'forbidden rule is not negated' }],
+    })
+
+    expect(result.includes('Deontic consistency check failed')).toEqual(true)
+    expect(result.includes('  - rules.0: forbidden rule is not negated')).toEqual(true)
+    expect(result.includes('Fix the issues')).toEqual(true)
+  })
 })
@@ -17,6 +17,19 @@ type ValidateJsonSchemaError = {
   issues: z.core.$ZodIssue[]
 }
 
+// a problem found by a local check on otherwise schema-valid data, shaped like a zod issue
+export type ValidationIssue = {
+  path: Array<PropertyKey>
+  message: string
+}
+
+export type ValidateCheckError = {
+  data: null
+  error: 'check'
+  check: string
+  issues: Array<ValidationIssue>
+}
+
 type ValidateJsonResult<T> = ValidateJsonSuccess<T> | ValidateJsonParseError | ValidateJsonSchemaError
 
 export const validateJson = <T>(json: string, schema: z.ZodType<T>): ValidateJsonResult<T> => {
@@ -43,14 +56,18 @@ export const validateJson = <T>(json: string, schema: z.ZodType<T>): ValidateJso
   }
 }
 
-export const formatValidationError = (result: ValidateJsonParseError | ValidateJsonSchemaError): string => {
+type ValidationError = ValidateJsonParseError | ValidateJsonSchemaError | ValidateCheckError
+
+export const formatValidationError = (result: ValidationError): string => {
   if (result.error === 'parse') {
     return 'Invalid JSON. Return valid JSON.'
   }
 
   const issues = result.issues
-    .map((i) => '  - ' + i.path.join('.') + ': ' + i.message)
+    .map((i: ValidationIssue) => '  - ' + i.path.map(String).join('.') + ': ' + i.message)
     .join('\n')
 
-  return 'Schema validation failed:\n' + issues + '\n\nFix the issues and try again.'
+  const heading = result.error === 'check' ? result.check + ' check failed' : 'Schema validation failed'
+
+  return heading + ':\n' + issues + '\n\nFix the issues and try again.'
 }
@@ -0,0 +1,7 @@
+import { mkdtempSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+// discovery reads the global opencode config under XDG_CONFIG_HOME; an empty one keeps the user's own config out of
+// every test that does not pass a globalDirectory
+process.env.XDG_CONFIG_HOME = mkdtempSync(join(tmpdir(), 'sat-config-home-'))